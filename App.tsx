@@ -3,10 +3,21 @@ import { createStackNavigator } from '@react-navigation/stack';
 import { NavigationContainer, DefaultTheme, DarkTheme } from '@react-navigation/native';
 import MusicPlayerScreen from './screens/MusicPlayerScreen';
 import PlaylistScreen from './screens/PlaylistScreen';
+import QueueScreen from './screens/QueueScreen';
+import NowPlayingScreen from './screens/NowPlayingScreen';
+import BrowseScreen from './screens/BrowseScreen';
+import BrowseDetailScreen from './screens/BrowseDetailScreen';
+import SettingsScreen from './screens/SettingsScreen';
+import SmartPlaylistScreen from './screens/SmartPlaylistScreen';
+import StatsScreen from './screens/StatsScreen';
+import { PlayerProvider } from './context/PlayerContext';
+import { LibraryProvider } from './context/LibraryContext';
+import { RatingsProvider } from './context/RatingsContext';
+import { RootStackParamList } from './types';
 import { useColorScheme } from 'react-native';
 import * as Font from 'expo-font';
 
-const Stack = createStackNavigator();
+const Stack = createStackNavigator<RootStackParamList>();
 
 export default function App() {
   const colorScheme = useColorScheme();
@@ -26,17 +37,30 @@ export default function App() {
   }, []);
 
   return (
-    <NavigationContainer theme={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack.Navigator 
-        initialRouteName="MusicPlayerScreen"
-        screenOptions={{ 
-          headerShown: false,
-          gestureEnabled: true,
-        }}
-      >
-        <Stack.Screen name="MusicPlayerScreen" component={MusicPlayerScreen} />
-        <Stack.Screen name="PlaylistScreen" component={PlaylistScreen} />
-      </Stack.Navigator>
-    </NavigationContainer>
+    <LibraryProvider>
+      <RatingsProvider>
+        <PlayerProvider>
+          <NavigationContainer theme={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+            <Stack.Navigator 
+              initialRouteName="MusicPlayerScreen"
+              screenOptions={{ 
+                headerShown: false,
+                gestureEnabled: true,
+              }}
+            >
+              <Stack.Screen name="MusicPlayerScreen" component={MusicPlayerScreen} />
+              <Stack.Screen name="PlaylistScreen" component={PlaylistScreen} />
+              <Stack.Screen name="QueueScreen" component={QueueScreen} />
+              <Stack.Screen name="NowPlayingScreen" component={NowPlayingScreen} />
+              <Stack.Screen name="BrowseScreen" component={BrowseScreen} />
+              <Stack.Screen name="BrowseDetailScreen" component={BrowseDetailScreen} />
+              <Stack.Screen name="SettingsScreen" component={SettingsScreen} />
+              <Stack.Screen name="SmartPlaylistScreen" component={SmartPlaylistScreen} />
+              <Stack.Screen name="StatsScreen" component={StatsScreen} />
+            </Stack.Navigator>
+          </NavigationContainer>
+        </PlayerProvider>
+      </RatingsProvider>
+    </LibraryProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+  Alert,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { addBookmark, Bookmark, deleteBookmark, getBookmarks } from '../services/spokenWord';
+import { Track } from '../types';
+import { formatTime } from '../utils/time';
+
+interface BookmarksSheetProps {
+  visible: boolean;
+  track: Track;
+  positionMillis: number;
+  onSeek: (positionMillis: number) => void;
+  onClose: () => void;
+}
+
+// New bookmarks are placed where playback was when the sheet opened, not where it has moved on to while typing.
+export default function BookmarksSheet({ visible, track, positionMillis, onSeek, onClose }: BookmarksSheetProps) {
+  const colorScheme = useColorScheme();
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [markAt, setMarkAt] = useState(0);
+  const [name, setName] = useState('');
+  const [note, setNote] = useState('');
+
+  const reload = async () => setBookmarks(await getBookmarks(track.id));
+
+  useEffect(() => {
+    if (!visible) return;
+    setMarkAt(positionMillis);
+    setName('');
+    setNote('');
+    reload();
+  }, [visible, track.id]);
+
+  const handleAdd = async () => {
+    if (await addBookmark(track.id, markAt, name.trim() || `Bookmark at ${formatTime(markAt)}`, note.trim())) {
+      setName('');
+      setNote('');
+      reload();
+    } else {
+      Alert.alert('Bookmark not saved', 'The bookmark could not be saved. Please try again.');
+    }
+  };
+
+  const confirmDelete = (bookmark: Bookmark) => {
+    Alert.alert('Delete Bookmark', `Delete "${bookmark.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteBookmark(bookmark.id);
+          reload();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles(colorScheme).overlay}>
+        <View style={styles(colorScheme).sheet}>
+          <Text style={styles(colorScheme).title}>Bookmarks</Text>
+          <ScrollView style={styles(colorScheme).list}>
+            {bookmarks.length === 0 && <Text style={styles(colorScheme).emptyText}>No bookmarks yet</Text>}
+            {bookmarks.map((bookmark) => (
+              <TouchableOpacity
+                key={bookmark.id}
+                onPress={() => {
+                  onSeek(bookmark.positionMillis);
+                  onClose();
+                }}
+                onLongPress={() => confirmDelete(bookmark)}
+                style={styles(colorScheme).bookmark}
+              >
+                <View style={styles(colorScheme).bookmarkHeader}>
+                  <Text numberOfLines={1} style={styles(colorScheme).bookmarkName}>
+                    {bookmark.name}
+                  </Text>
+                  <Text style={styles(colorScheme).bookmarkTime}>{formatTime(bookmark.positionMillis)}</Text>
+                </View>
+                {bookmark.note && <Text style={styles(colorScheme).bookmarkNote}>{bookmark.note}</Text>}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <Text style={styles(colorScheme).formTitle}>Add at {formatTime(markAt)}</Text>
+          <TextInput
+            style={styles(colorScheme).input}
+            placeholder="Name"
+            placeholderTextColor={colorScheme === 'dark' ? '#9ca3af' : '#6b7280'}
+            value={name}
+            onChangeText={setName}
+          />
+          <TextInput
+            style={[styles(colorScheme).input, styles(colorScheme).noteInput]}
+            placeholder="Note (optional)"
+            placeholderTextColor={colorScheme === 'dark' ? '#9ca3af' : '#6b7280'}
+            value={note}
+            onChangeText={setNote}
+            multiline
+          />
+          <View style={styles(colorScheme).buttonRow}>
+            <TouchableOpacity onPress={onClose} style={styles(colorScheme).button}>
+              <Text style={styles(colorScheme).buttonText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleAdd} style={[styles(colorScheme).button, styles(colorScheme).primary]}>
+              <Text style={[styles(colorScheme).buttonText, styles(colorScheme).primaryText]}>Add Bookmark</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: scheme === 'dark' ? 'rgba(0, 0, 0, 0.7)' : 'rgba(107, 114, 128, 0.7)',
+    },
+    sheet: {
+      maxHeight: '85%',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      padding: 20,
+    },
+    title: {
+      fontSize: 20,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Bold',
+      marginBottom: 12,
+      textAlign: 'center',
+    },
+    list: {
+      flexGrow: 0,
+      maxHeight: 260,
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      textAlign: 'center',
+      fontSize: 15,
+      fontFamily: 'Poppins-Regular',
+      marginVertical: 12,
+    },
+    bookmark: {
+      paddingVertical: 10,
+      paddingHorizontal: 12,
+      borderRadius: 12,
+      marginBottom: 6,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+    },
+    bookmarkHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: 8,
+    },
+    bookmarkName: {
+      flex: 1,
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    bookmarkTime: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-Medium',
+    },
+    bookmarkNote: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#d1d5db' : '#475569',
+      fontFamily: 'Poppins-Regular',
+      marginTop: 4,
+    },
+    formTitle: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      marginTop: 12,
+      marginBottom: 8,
+    },
+    input: {
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      marginBottom: 8,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Regular',
+    },
+    noteInput: {
+      minHeight: 60,
+      textAlignVertical: 'top',
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 10,
+      marginTop: 4,
+    },
+    button: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 12,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#e2e8f0',
+    },
+    primary: {
+      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+    },
+    buttonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    primaryText: {
+      color: '#ffffff',
+    },
+  });
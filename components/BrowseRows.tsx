@@ -0,0 +1,159 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Image, useColorScheme, ColorSchemeName } from 'react-native';
+import { Track } from '../types';
+import { FavouriteButton } from './RatingControls';
+import { SpectrumBars } from './Visualizer';
+
+interface GroupRowProps {
+  name: string;
+  subtitle: string;
+  icon?: string;
+  artwork?: string;
+  onPress: () => void;
+}
+
+export function GroupRow({ name, subtitle, icon, artwork, onPress }: GroupRowProps) {
+  const colorScheme = useColorScheme();
+
+  return (
+    <TouchableOpacity onPress={onPress} style={styles(colorScheme).row}>
+      {artwork ? (
+        <Image source={{ uri: artwork }} style={styles(colorScheme).artwork} />
+      ) : (
+        <View style={styles(colorScheme).artwork}>
+          <Text style={styles(colorScheme).icon}>{icon}</Text>
+        </View>
+      )}
+      <View style={styles(colorScheme).info}>
+        <Text numberOfLines={1} style={styles(colorScheme).title}>
+          {name}
+        </Text>
+        <Text numberOfLines={1} style={styles(colorScheme).subtitle}>
+          {subtitle}
+        </Text>
+      </View>
+      <Text style={styles(colorScheme).chevron}>›</Text>
+    </TouchableOpacity>
+  );
+}
+
+interface TrackRowProps {
+  track: Track;
+  isCurrent: boolean;
+  leading?: string;
+  subtitle?: string;
+  onPress: () => void;
+  onLongPress?: () => void;
+}
+
+export function TrackRow({ track, isCurrent, leading, subtitle, onPress, onLongPress }: TrackRowProps) {
+  const colorScheme = useColorScheme();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      onLongPress={onLongPress}
+      style={[styles(colorScheme).row, isCurrent && styles(colorScheme).currentRow]}
+    >
+      {leading !== undefined && <Text style={styles(colorScheme).leading}>{leading}</Text>}
+      <View style={styles(colorScheme).info}>
+        <Text numberOfLines={1} style={styles(colorScheme).title}>
+          {track.title || track.filename}
+        </Text>
+        <Text numberOfLines={1} style={styles(colorScheme).subtitle}>
+          {subtitle ?? (track.artist || 'Unknown')}
+        </Text>
+      </View>
+      {isCurrent && <SpectrumBars />}
+      <FavouriteButton trackId={track.id} />
+    </TouchableOpacity>
+  );
+}
+
+export function PlayAllBar({ onPlay, onShuffle }: { onPlay: () => void; onShuffle: () => void }) {
+  const colorScheme = useColorScheme();
+
+  return (
+    <View style={styles(colorScheme).playAllBar}>
+      <TouchableOpacity onPress={onPlay} style={styles(colorScheme).playAllButton}>
+        <Text style={styles(colorScheme).playAllText}>▶ Play All</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onShuffle} style={styles(colorScheme).playAllButton}>
+        <Text style={styles(colorScheme).playAllText}>🔀 Shuffle All</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
+      padding: 12,
+      borderRadius: 12,
+      marginVertical: 4,
+    },
+    currentRow: {
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+      borderWidth: 1,
+      borderColor: scheme === 'dark' ? '#3b82f6' : '#93c5fd',
+    },
+    artwork: {
+      width: 44,
+      height: 44,
+      borderRadius: 8,
+      marginRight: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#e2e8f0',
+    },
+    icon: {
+      fontSize: 20,
+    },
+    leading: {
+      width: 28,
+      marginRight: 8,
+      textAlign: 'right',
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+      fontFamily: 'Poppins-Medium',
+    },
+    info: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    subtitle: {
+      fontSize: 13,
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+      fontFamily: 'Poppins-Regular',
+    },
+    chevron: {
+      fontSize: 24,
+      marginLeft: 8,
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+    },
+    playAllBar: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    playAllButton: {
+      flex: 1,
+      marginHorizontal: 4,
+      paddingVertical: 10,
+      borderRadius: 12,
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    playAllText: {
+      fontSize: 15,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+  });
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { Animated, FlatList, GestureResponderEvent, StyleProp, View, ViewStyle } from 'react-native';
+
+export interface DragHandleProps {
+  onStartShouldSetResponder: () => boolean;
+  onResponderTerminationRequest: () => boolean;
+  onResponderGrant: (event: GestureResponderEvent) => void;
+  onResponderMove: (event: GestureResponderEvent) => void;
+  onResponderRelease: () => void;
+  onResponderTerminate: () => void;
+}
+
+interface DraggableListProps<T> {
+  data: T[];
+  itemHeight: number;
+  keyExtractor: (item: T, index: number) => string;
+  renderItem: (info: { item: T; index: number; isDragging: boolean; dragHandleProps: DragHandleProps }) => React.ReactElement;
+  onReorder: (from: number, to: number) => void;
+  ListEmptyComponent?: React.ReactElement;
+  style?: StyleProp<ViewStyle>;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+}
+
+export default function DraggableList<T>({
+  data,
+  itemHeight,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  ListEmptyComponent,
+  style,
+  contentContainerStyle,
+}: DraggableListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+  const startY = useRef(0);
+  const hoverRef = useRef<number | null>(null);
+
+  const endDrag = (from: number | null) => {
+    const to = hoverRef.current;
+    dragY.setValue(0);
+    hoverRef.current = null;
+    setDragIndex(null);
+    setHoverIndex(null);
+    if (from !== null && to !== null && from !== to) onReorder(from, to);
+  };
+
+  const handlePropsFor = (index: number): DragHandleProps => ({
+    onStartShouldSetResponder: () => true,
+    onResponderTerminationRequest: () => false,
+    onResponderGrant: (event) => {
+      startY.current = event.nativeEvent.pageY;
+      hoverRef.current = index;
+      setDragIndex(index);
+      setHoverIndex(index);
+    },
+    onResponderMove: (event) => {
+      const dy = event.nativeEvent.pageY - startY.current;
+      dragY.setValue(dy);
+      const target = Math.max(0, Math.min(data.length - 1, index + Math.round(dy / itemHeight)));
+      if (target !== hoverRef.current) {
+        hoverRef.current = target;
+        setHoverIndex(target);
+      }
+    },
+    onResponderRelease: () => endDrag(index),
+    onResponderTerminate: () => endDrag(index),
+  });
+
+  const offsetFor = (index: number) => {
+    if (dragIndex === null || hoverIndex === null || index === dragIndex) return 0;
+    if (dragIndex < index && index <= hoverIndex) return -itemHeight;
+    if (hoverIndex <= index && index < dragIndex) return itemHeight;
+    return 0;
+  };
+
+  return (
+    <FlatList
+      data={data}
+      keyExtractor={keyExtractor}
+      scrollEnabled={dragIndex === null}
+      getItemLayout={(_, index) => ({ length: itemHeight, offset: itemHeight * index, index })}
+      ListEmptyComponent={ListEmptyComponent}
+      style={style}
+      contentContainerStyle={contentContainerStyle}
+      CellRendererComponent={({ index, style: cellStyle, ...props }) => (
+        <View {...props} style={[cellStyle, { zIndex: index === dragIndex ? 1 : 0 }]} />
+      )}
+      renderItem={({ item, index }) => {
+        const isDragging = index === dragIndex;
+        return (
+          <Animated.View
+            style={{
+              height: itemHeight,
+              transform: [{ translateY: isDragging ? dragY : offsetFor(index) }],
+            }}
+          >
+            {renderItem({ item, index, isDragging, dragHandleProps: handlePropsFor(index) })}
+          </Animated.View>
+        );
+      }}
+    />
+  );
+}
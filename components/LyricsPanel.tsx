@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { usePlayer } from '../context/PlayerContext';
+import { getTrackLyrics } from '../services/library';
+import { deleteLyrics, lineIndexAt, LyricsSource, parseLyrics, saveLyrics, StoredLyrics } from '../services/lyrics';
+import { Track } from '../types';
+
+interface LyricsPanelProps {
+  track: Track;
+}
+
+const SOURCE_LABELS: Record<LyricsSource, string> = {
+  sidecar: 'From .lrc file',
+  embedded: 'From tags',
+  manual: 'Added by you',
+  none: '',
+};
+
+// Synced lyrics follow playback only while this track is the one playing; otherwise they read like plain lyrics.
+export default function LyricsPanel({ track }: LyricsPanelProps) {
+  const colorScheme = useColorScheme();
+  const { currentTrack, positionMillis, seekTo } = usePlayer();
+  const [lyrics, setLyrics] = useState<StoredLyrics | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<ScrollView>(null);
+  const lineOffsets = useRef<number[]>([]);
+  const [viewHeight, setViewHeight] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLyrics(null);
+    setEditing(false);
+    getTrackLyrics(track).then((loaded) => {
+      if (!cancelled) setLyrics(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [track.id]);
+
+  const parsed = useMemo(() => parseLyrics(lyrics?.text || ''), [lyrics?.text]);
+  const isCurrent = currentTrack?.id === track.id;
+  const activeIndex = parsed.synced && isCurrent ? lineIndexAt(parsed.lines, positionMillis) : -1;
+
+  useEffect(() => {
+    if (activeIndex < 0 || editing) return;
+    const y = lineOffsets.current[activeIndex] ?? 0;
+    scrollRef.current?.scrollTo({ y: Math.max(0, y - viewHeight / 3), animated: true });
+  }, [activeIndex, editing]);
+
+  const startEditing = () => {
+    setDraft(lyrics?.text || '');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    const saved: StoredLyrics = { text: draft.trim(), source: 'manual' };
+    if (await saveLyrics(track.id, saved)) {
+      setLyrics(saved);
+      setEditing(false);
+    } else {
+      Alert.alert('Lyrics not saved', 'The lyrics could not be saved. Please try again.');
+    }
+  };
+
+  const reloadFromFile = async () => {
+    await deleteLyrics(track.id);
+    setEditing(false);
+    setLyrics(null);
+    setLyrics(await getTrackLyrics(track));
+  };
+
+  const confirmReload = () => {
+    if (lyrics?.source !== 'manual') {
+      reloadFromFile();
+      return;
+    }
+    Alert.alert('Reload Lyrics', 'Replace your lyrics with the ones from the file?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reload', style: 'destructive', onPress: reloadFromFile },
+    ]);
+  };
+
+  if (!lyrics) {
+    return (
+      <View style={styles(colorScheme).container}>
+        <ActivityIndicator color={colorScheme === 'dark' ? '#ffffff' : '#1e293b'} />
+      </View>
+    );
+  }
+
+  if (editing) {
+    return (
+      <View style={styles(colorScheme).container}>
+        <TextInput
+          style={styles(colorScheme).input}
+          placeholder="Paste lyrics, plain or with [mm:ss.xx] timestamps"
+          placeholderTextColor={colorScheme === 'dark' ? '#9ca3af' : '#6b7280'}
+          value={draft}
+          onChangeText={setDraft}
+          multiline
+          autoCorrect={false}
+        />
+        <View style={styles(colorScheme).buttonRow}>
+          <TouchableOpacity onPress={() => setEditing(false)} style={styles(colorScheme).button}>
+            <Text style={styles(colorScheme).buttonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={confirmReload} style={styles(colorScheme).button}>
+            <Text style={styles(colorScheme).buttonText}>From File</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleSave} style={[styles(colorScheme).button, styles(colorScheme).primary]}>
+            <Text style={[styles(colorScheme).buttonText, styles(colorScheme).primaryText]}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles(colorScheme).container}>
+      <View style={styles(colorScheme).header}>
+        <Text style={styles(colorScheme).source}>
+          {[SOURCE_LABELS[lyrics.source], parsed.synced && 'Synced'].filter(Boolean).join(' · ')}
+        </Text>
+        <TouchableOpacity onPress={startEditing}>
+          <Text style={styles(colorScheme).editText}>{parsed.lines.length > 0 ? 'Edit' : 'Add Lyrics'}</Text>
+        </TouchableOpacity>
+      </View>
+      {parsed.lines.length === 0 ? (
+        <Text style={styles(colorScheme).emptyText}>No lyrics found</Text>
+      ) : (
+        <ScrollView
+          ref={scrollRef}
+          style={styles(colorScheme).lines}
+          onLayout={(event) => setViewHeight(event.nativeEvent.layout.height)}
+        >
+          {parsed.lines.map((line, index) => (
+            <TouchableOpacity
+              key={index}
+              disabled={!isCurrent || line.timeMillis === undefined}
+              onPress={() => seekTo(line.timeMillis as number)}
+              onLayout={(event) => {
+                lineOffsets.current[index] = event.nativeEvent.layout.y;
+              }}
+            >
+              <Text
+                style={[
+                  styles(colorScheme).line,
+                  parsed.synced && styles(colorScheme).syncedLine,
+                  index === activeIndex && styles(colorScheme).activeLine,
+                ]}
+              >
+                {line.text || ' '}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    container: {
+      width: '100%',
+      minHeight: 80,
+      justifyContent: 'center',
+      marginBottom: 12,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    source: {
+      fontSize: 13,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-Regular',
+    },
+    editText: {
+      fontSize: 15,
+      color: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      textAlign: 'center',
+      fontSize: 15,
+      fontFamily: 'Poppins-Regular',
+      marginVertical: 12,
+    },
+    lines: {
+      maxHeight: 240,
+    },
+    line: {
+      fontSize: 15,
+      lineHeight: 22,
+      color: scheme === 'dark' ? '#d1d5db' : '#475569',
+      fontFamily: 'Poppins-Regular',
+      textAlign: 'center',
+    },
+    syncedLine: {
+      paddingVertical: 3,
+      color: scheme === 'dark' ? '#64748b' : '#94a3b8',
+    },
+    activeLine: {
+      fontSize: 17,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    input: {
+      height: 220,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      marginBottom: 8,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Regular',
+      textAlignVertical: 'top',
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    button: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#e2e8f0',
+    },
+    primary: {
+      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+    },
+    buttonText: {
+      fontSize: 15,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    primaryText: {
+      color: '#ffffff',
+    },
+  });
@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+
+export interface Option<T extends string> {
+  value: T;
+  label: string;
+}
+
+interface OptionPickerProps<T extends string> {
+  visible: boolean;
+  title: string;
+  options: Option<T>[];
+  selected?: T;
+  onSelect: (value: T) => void;
+  onClose: () => void;
+}
+
+// Android alerts only fit three buttons, so longer lists of choices go through this instead.
+export default function OptionPicker<T extends string>({
+  visible,
+  title,
+  options,
+  selected,
+  onSelect,
+  onClose,
+}: OptionPickerProps<T>) {
+  const colorScheme = useColorScheme();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity activeOpacity={1} onPress={onClose} style={styles(colorScheme).overlay}>
+        <View style={styles(colorScheme).card}>
+          <Text style={styles(colorScheme).title}>{title}</Text>
+          <ScrollView>
+            {options.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                onPress={() => {
+                  onSelect(option.value);
+                  onClose();
+                }}
+                style={[styles(colorScheme).option, option.value === selected && styles(colorScheme).selectedOption]}
+              >
+                <Text style={styles(colorScheme).optionText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? 'rgba(0, 0, 0, 0.7)' : 'rgba(107, 114, 128, 0.7)',
+    },
+    card: {
+      width: '80%',
+      maxHeight: '70%',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
+      borderRadius: 20,
+      padding: 20,
+    },
+    title: {
+      fontSize: 20,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Bold',
+      marginBottom: 12,
+      textAlign: 'center',
+    },
+    option: {
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      marginBottom: 6,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+    },
+    selectedOption: {
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    optionText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+  });
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, useColorScheme, ColorSchemeName } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { usePlayer } from '../context/PlayerContext';
+import SleepTimerPicker from './SleepTimerPicker';
+import SpeedPicker from './SpeedPicker';
+import { formatSpeed } from '../services/playbackSpeed';
+import { EXTEND_MINUTES } from '../services/sleepTimer';
+import { formatTime } from '../utils/time';
+
+export default function PlaybackModes() {
+  const colorScheme = useColorScheme();
+  const navigation = useNavigation();
+  const [sleepPickerVisible, setSleepPickerVisible] = useState(false);
+  const [speedPickerVisible, setSpeedPickerVisible] = useState(false);
+  const { shuffle, repeat, setShuffle, cycleRepeat, sleepTimer, extendSleepTimer, rate } = usePlayer();
+
+  return (
+    <View style={styles(colorScheme).row}>
+      <TouchableOpacity onPress={() => setShuffle(!shuffle)} style={styles(colorScheme).modeButton}>
+        <Text style={[styles(colorScheme).modeIcon, !shuffle && styles(colorScheme).inactive]}>🔀</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={cycleRepeat} style={styles(colorScheme).modeButton}>
+        <Text style={[styles(colorScheme).modeIcon, repeat === 'off' && styles(colorScheme).inactive]}>
+          {repeat === 'one' ? '🔂' : '🔁'}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => navigation.navigate('QueueScreen')} style={styles(colorScheme).modeButton}>
+        <Text style={styles(colorScheme).modeIcon}>☰</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => setSleepPickerVisible(true)} style={styles(colorScheme).modeButton}>
+        <Text style={[styles(colorScheme).modeIcon, !sleepTimer.active && styles(colorScheme).inactive]}>
+          💤
+          {sleepTimer.active && (
+            <Text style={styles(colorScheme).sleepText}>
+              {' '}
+              {sleepTimer.endOfTrack ? 'end of track' : formatTime(sleepTimer.remainingMillis)}
+            </Text>
+          )}
+        </Text>
+      </TouchableOpacity>
+      {sleepTimer.active && (
+        <TouchableOpacity onPress={() => extendSleepTimer()} style={styles(colorScheme).modeButton}>
+          <Text style={styles(colorScheme).sleepText}>+{EXTEND_MINUTES}</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity onPress={() => setSpeedPickerVisible(true)} style={styles(colorScheme).modeButton}>
+        <Text style={[styles(colorScheme).sleepText, rate === 1 && styles(colorScheme).inactive]}>
+          {formatSpeed(rate)}
+        </Text>
+      </TouchableOpacity>
+      <SleepTimerPicker visible={sleepPickerVisible} onClose={() => setSleepPickerVisible(false)} />
+      <SpeedPicker visible={speedPickerVisible} onClose={() => setSpeedPickerVisible(false)} />
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 8,
+    },
+    modeButton: {
+      paddingVertical: 4,
+      paddingHorizontal: 10,
+    },
+    modeIcon: {
+      fontSize: 20,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+    },
+    inactive: {
+      opacity: 0.35,
+    },
+    sleepText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+  });
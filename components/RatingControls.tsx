@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, useColorScheme, ColorSchemeName } from 'react-native';
+import { useRatings } from '../context/RatingsContext';
+import { MAX_RATING } from '../services/ratings';
+
+interface RatingControlProps {
+  trackId: string;
+  size?: number;
+}
+
+export function FavouriteButton({ trackId, size = 20 }: RatingControlProps) {
+  const colorScheme = useColorScheme();
+  const { isFavourite, toggleFavourite } = useRatings();
+  const liked = isFavourite(trackId);
+
+  return (
+    <TouchableOpacity
+      onPress={() => toggleFavourite(trackId)}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={liked ? 'Remove from Liked Songs' : 'Add to Liked Songs'}
+      style={styles(colorScheme).button}
+    >
+      <Text style={[styles(colorScheme).heart, { fontSize: size }, liked && styles(colorScheme).liked]}>
+        {liked ? '♥' : '♡'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+// Tapping the current rating again clears it.
+export function StarRating({ trackId, size = 24 }: RatingControlProps) {
+  const colorScheme = useColorScheme();
+  const { ratingOf, setRating } = useRatings();
+  const rating = ratingOf(trackId);
+
+  return (
+    <View style={styles(colorScheme).stars} accessibilityLabel={`Rated ${rating} of ${MAX_RATING} stars`}>
+      {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((star) => (
+        <TouchableOpacity
+          key={star}
+          onPress={() => setRating(trackId, star === rating ? 0 : star)}
+          hitSlop={4}
+          style={styles(colorScheme).button}
+        >
+          <Text style={[styles(colorScheme).star, { fontSize: size }, star <= rating && styles(colorScheme).filled]}>
+            {star <= rating ? '★' : '☆'}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    button: {
+      paddingHorizontal: 4,
+    },
+    heart: {
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+    },
+    liked: {
+      color: '#ef4444',
+    },
+    stars: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    star: {
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+    },
+    filled: {
+      color: '#f59e0b',
+    },
+  });
@@ -0,0 +1,104 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, useColorScheme, ColorSchemeName } from 'react-native';
+
+export interface SelectionAction {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+}
+
+export const toggleId = (ids: Set<string>, id: string) => {
+  const updated = new Set(ids);
+  if (updated.has(id)) updated.delete(id);
+  else updated.add(id);
+  return updated;
+};
+
+interface SelectionBarProps {
+  count: number;
+  actions: SelectionAction[];
+  onSelectAll: () => void;
+  onCancel: () => void;
+}
+
+export default function SelectionBar({ count, actions, onSelectAll, onCancel }: SelectionBarProps) {
+  const colorScheme = useColorScheme();
+
+  return (
+    <View style={styles(colorScheme).bar}>
+      <View style={styles(colorScheme).header}>
+        <TouchableOpacity onPress={onCancel} style={styles(colorScheme).headerButton}>
+          <Text style={styles(colorScheme).headerButtonText}>✖</Text>
+        </TouchableOpacity>
+        <Text style={styles(colorScheme).count}>{count} selected</Text>
+        <TouchableOpacity onPress={onSelectAll} style={styles(colorScheme).headerButton}>
+          <Text style={styles(colorScheme).headerButtonText}>Select All</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles(colorScheme).actions}>
+        {actions.map((action) => (
+          <TouchableOpacity
+            key={action.label}
+            disabled={count === 0}
+            onPress={action.onPress}
+            style={[styles(colorScheme).action, count === 0 && styles(colorScheme).disabled]}
+          >
+            <Text style={[styles(colorScheme).actionText, action.destructive && styles(colorScheme).destructiveText]}>
+              {action.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    bar: {
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+      borderRadius: 12,
+      padding: 8,
+      marginBottom: 12,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 6,
+    },
+    headerButton: {
+      paddingVertical: 4,
+      paddingHorizontal: 8,
+    },
+    headerButtonText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    count: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    actions: {
+      gap: 8,
+    },
+    action: {
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#ffffff',
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 10,
+    },
+    actionText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    destructiveText: {
+      color: scheme === 'dark' ? '#f87171' : '#dc2626',
+    },
+    disabled: {
+      opacity: 0.5,
+    },
+  });
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { usePlayer } from '../context/PlayerContext';
+import { EXTEND_MINUTES, SLEEP_PRESETS } from '../services/sleepTimer';
+import { formatTime } from '../utils/time';
+
+interface SleepTimerPickerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function SleepTimerPicker({ visible, onClose }: SleepTimerPickerProps) {
+  const colorScheme = useColorScheme();
+  const [customMinutes, setCustomMinutes] = useState('');
+  const { sleepTimer, startSleepTimer, sleepAtEndOfTrack, extendSleepTimer, cancelSleepTimer } = usePlayer();
+  const custom = parseInt(customMinutes, 10);
+
+  const choose = (action: () => void) => {
+    action();
+    setCustomMinutes('');
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles(colorScheme).overlay}>
+        <View style={styles(colorScheme).card}>
+          <Text style={styles(colorScheme).title}>Sleep Timer</Text>
+          {sleepTimer.active && (
+            <View style={styles(colorScheme).activeRow}>
+              <Text style={styles(colorScheme).remaining}>
+                {sleepTimer.endOfTrack ? 'At end of track' : formatTime(sleepTimer.remainingMillis)}
+              </Text>
+              <TouchableOpacity onPress={() => extendSleepTimer()} style={styles(colorScheme).chip}>
+                <Text style={styles(colorScheme).chipText}>+{EXTEND_MINUTES} min</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          <View style={styles(colorScheme).presets}>
+            {SLEEP_PRESETS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                onPress={() => choose(() => startSleepTimer(minutes))}
+                style={styles(colorScheme).chip}
+              >
+                <Text style={styles(colorScheme).chipText}>{minutes} min</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles(colorScheme).customRow}>
+            <TextInput
+              style={styles(colorScheme).input}
+              placeholder="Custom minutes"
+              placeholderTextColor={colorScheme === 'dark' ? '#9ca3af' : '#6b7280'}
+              keyboardType="number-pad"
+              value={customMinutes}
+              onChangeText={setCustomMinutes}
+            />
+            <TouchableOpacity
+              disabled={!(custom > 0)}
+              onPress={() => choose(() => startSleepTimer(custom))}
+              style={[styles(colorScheme).chip, !(custom > 0) && styles(colorScheme).disabled]}
+            >
+              <Text style={styles(colorScheme).chipText}>Start</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={() => choose(sleepAtEndOfTrack)} style={styles(colorScheme).option}>
+            <Text style={styles(colorScheme).optionText}>End of current track</Text>
+          </TouchableOpacity>
+          {sleepTimer.active && (
+            <TouchableOpacity onPress={() => choose(cancelSleepTimer)} style={styles(colorScheme).option}>
+              <Text style={[styles(colorScheme).optionText, styles(colorScheme).destructive]}>Turn Off</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={onClose} style={styles(colorScheme).closeButton}>
+            <Text style={styles(colorScheme).optionText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? 'rgba(0, 0, 0, 0.7)' : 'rgba(107, 114, 128, 0.7)',
+    },
+    card: {
+      width: '85%',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
+      borderRadius: 20,
+      padding: 20,
+    },
+    title: {
+      fontSize: 20,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Bold',
+      marginBottom: 12,
+      textAlign: 'center',
+    },
+    activeRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 12,
+    },
+    remaining: {
+      fontSize: 24,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    presets: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    chipText: {
+      fontSize: 15,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    disabled: {
+      opacity: 0.4,
+    },
+    customRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 12,
+    },
+    input: {
+      flex: 1,
+      height: 42,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Regular',
+    },
+    option: {
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      marginBottom: 6,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+    },
+    optionText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+      textAlign: 'center',
+    },
+    destructive: {
+      color: '#ef4444',
+    },
+    closeButton: {
+      paddingVertical: 12,
+      marginTop: 6,
+    },
+  });
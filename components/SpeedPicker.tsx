@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, Switch, useColorScheme, ColorSchemeName } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { usePlayer } from '../context/PlayerContext';
+import {
+  clampSpeed,
+  formatSpeed,
+  MAX_SPEED,
+  MIN_SPEED,
+  SPEED_PRESETS,
+  SPEED_STEP,
+  SpeedScope,
+} from '../services/playbackSpeed';
+
+interface SpeedPickerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const SCOPES: { value: SpeedScope; label: string }[] = [
+  { value: 'track', label: 'This track' },
+  { value: 'folder', label: 'Whole folder' },
+];
+
+export default function SpeedPicker({ visible, onClose }: SpeedPickerProps) {
+  const colorScheme = useColorScheme();
+  const { currentTrack, rate, rateScope, pitchCorrection, setPlaybackSpeed, setPitchCorrection } = usePlayer();
+  const [scope, setScope] = useState<SpeedScope>(rateScope);
+
+  useEffect(() => {
+    if (visible) setScope(rateScope);
+  }, [visible, currentTrack?.id]);
+
+  const choose = (speed: number) => setPlaybackSpeed(clampSpeed(speed), scope);
+
+  // Switching scope moves the current speed over, so the choice applies straight away.
+  const chooseScope = (next: SpeedScope) => {
+    setScope(next);
+    if (next !== rateScope) setPlaybackSpeed(rate, next);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles(colorScheme).overlay}>
+        <View style={styles(colorScheme).card}>
+          <Text style={styles(colorScheme).title}>Playback Speed</Text>
+          <View style={styles(colorScheme).stepRow}>
+            <TouchableOpacity
+              disabled={!currentTrack || rate <= MIN_SPEED}
+              onPress={() => choose(rate - SPEED_STEP)}
+              style={styles(colorScheme).chip}
+            >
+              <Text style={styles(colorScheme).chipText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles(colorScheme).speed}>{formatSpeed(rate)}</Text>
+            <TouchableOpacity
+              disabled={!currentTrack || rate >= MAX_SPEED}
+              onPress={() => choose(rate + SPEED_STEP)}
+              style={styles(colorScheme).chip}
+            >
+              <Text style={styles(colorScheme).chipText}>+</Text>
+            </TouchableOpacity>
+          </View>
+          <Slider
+            disabled={!currentTrack}
+            minimumValue={MIN_SPEED}
+            maximumValue={MAX_SPEED}
+            step={SPEED_STEP}
+            value={rate}
+            onSlidingComplete={choose}
+            minimumTrackTintColor={colorScheme === 'dark' ? '#3b82f6' : '#2563eb'}
+            maximumTrackTintColor={colorScheme === 'dark' ? '#334155' : '#cbd5e1'}
+            thumbTintColor={colorScheme === 'dark' ? '#ffffff' : '#1e293b'}
+          />
+          <View style={styles(colorScheme).presets}>
+            {SPEED_PRESETS.map((speed) => (
+              <TouchableOpacity
+                key={speed}
+                disabled={!currentTrack}
+                onPress={() => choose(speed)}
+                style={[styles(colorScheme).chip, rate === speed && styles(colorScheme).selectedChip]}
+              >
+                <Text style={[styles(colorScheme).chipText, rate === speed && styles(colorScheme).selectedText]}>
+                  {formatSpeed(speed)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles(colorScheme).presets}>
+            {SCOPES.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                disabled={!currentTrack}
+                onPress={() => chooseScope(option.value)}
+                style={[styles(colorScheme).chip, scope === option.value && styles(colorScheme).selectedChip]}
+              >
+                <Text
+                  style={[styles(colorScheme).chipText, scope === option.value && styles(colorScheme).selectedText]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles(colorScheme).switchRow}>
+            <Text style={styles(colorScheme).optionText}>Keep natural pitch</Text>
+            <Switch value={pitchCorrection} onValueChange={setPitchCorrection} />
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles(colorScheme).closeButton}>
+            <Text style={styles(colorScheme).optionText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? 'rgba(0, 0, 0, 0.7)' : 'rgba(107, 114, 128, 0.7)',
+    },
+    card: {
+      width: '85%',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
+      borderRadius: 20,
+      padding: 20,
+    },
+    title: {
+      fontSize: 20,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Bold',
+      marginBottom: 12,
+      textAlign: 'center',
+    },
+    stepRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    speed: {
+      fontSize: 28,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    presets: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginTop: 12,
+    },
+    chip: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    selectedChip: {
+      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+    },
+    chipText: {
+      fontSize: 15,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    selectedText: {
+      color: '#ffffff',
+    },
+    switchRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginTop: 16,
+    },
+    optionText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+      textAlign: 'center',
+    },
+    closeButton: {
+      paddingVertical: 12,
+      marginTop: 6,
+    },
+  });
@@ -0,0 +1,68 @@
+import React, { useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, useColorScheme, ColorSchemeName } from 'react-native';
+
+const UNDO_TIMEOUT = 5000;
+
+interface UndoSnackbarProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// Give each edit its own `key` so a second edit restarts the timer instead of inheriting the first one's.
+export default function UndoSnackbar({ message, onUndo, onDismiss }: UndoSnackbarProps) {
+  const colorScheme = useColorScheme();
+
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, UNDO_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, []);
+
+  return (
+    <View style={styles(colorScheme).snackbar}>
+      <Text numberOfLines={2} style={styles(colorScheme).message}>
+        {message}
+      </Text>
+      <TouchableOpacity onPress={onUndo} style={styles(colorScheme).undoButton}>
+        <Text style={styles(colorScheme).undoText}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    snackbar: {
+      position: 'absolute',
+      bottom: 90,
+      left: 16,
+      right: 16,
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? '#e2e8f0' : '#1e293b',
+      borderRadius: 12,
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      shadowColor: '#000000',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.3,
+      shadowRadius: 6,
+      elevation: 10,
+    },
+    message: {
+      flex: 1,
+      fontSize: 14,
+      color: scheme === 'dark' ? '#1e293b' : '#ffffff',
+      fontFamily: 'Poppins-Regular',
+    },
+    undoButton: {
+      marginLeft: 12,
+      paddingVertical: 4,
+      paddingHorizontal: 8,
+    },
+    undoText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#2563eb' : '#60a5fa',
+      fontFamily: 'Poppins-SemiBold',
+    },
+  });
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, useColorScheme, ColorSchemeName } from 'react-native';
+import { useIsFocused } from '@react-navigation/native';
+import { usePlayer } from '../context/PlayerContext';
+import { addListener, EMPTY_FRAME, groupBands } from '../services/visualizer';
+
+// Listens only while playing on a focused screen; otherwise the last frame stays up and the player stops sending
+// samples once nothing else is listening.
+const useVisualizerFrame = () => {
+  const { isPlaying } = usePlayer();
+  const isFocused = useIsFocused();
+  const [frame, setFrame] = useState(EMPTY_FRAME);
+  const active = isPlaying && isFocused;
+
+  useEffect(() => {
+    if (!active) return;
+    return addListener(setFrame);
+  }, [active]);
+
+  return frame;
+};
+
+const ROW_BAR_HEIGHT = 20;
+const SPECTRUM_HEIGHT = 80;
+const WAVEFORM_HEIGHT = 40;
+
+// A few bars for the playing row in track lists.
+export function SpectrumBars({ bands = 4 }: { bands?: number }) {
+  const colorScheme = useColorScheme();
+  const levels = groupBands(useVisualizerFrame().spectrum, bands);
+
+  return (
+    <View style={[styles(colorScheme).barRow, { height: ROW_BAR_HEIGHT }]}>
+      {levels.map((level, i) => (
+        <View key={i} style={[styles(colorScheme).rowBar, { height: 3 + level * (ROW_BAR_HEIGHT - 3) }]} />
+      ))}
+    </View>
+  );
+}
+
+// Full spectrum with the waveform underneath, for the player view.
+export default function Visualizer() {
+  const colorScheme = useColorScheme();
+  const { spectrum, waveform } = useVisualizerFrame();
+
+  return (
+    <View style={styles(colorScheme).container}>
+      <View style={[styles(colorScheme).barRow, { height: SPECTRUM_HEIGHT }]}>
+        {spectrum.map((level, i) => (
+          <View key={i} style={[styles(colorScheme).spectrumBar, { height: 2 + level * (SPECTRUM_HEIGHT - 2) }]} />
+        ))}
+      </View>
+      <View style={[styles(colorScheme).waveform, { height: WAVEFORM_HEIGHT }]}>
+        {waveform.map((value, i) => (
+          <View
+            key={i}
+            style={[
+              styles(colorScheme).waveBar,
+              {
+                height: 1 + (Math.abs(value) * WAVEFORM_HEIGHT) / 2,
+                transform: [{ translateY: (value * WAVEFORM_HEIGHT) / -4 }],
+              },
+            ]}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName) =>
+  StyleSheet.create({
+    container: {
+      width: '100%',
+      marginVertical: 12,
+    },
+    barRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      justifyContent: 'center',
+    },
+    rowBar: {
+      width: 4,
+      marginHorizontal: 1,
+      borderRadius: 2,
+      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+    },
+    spectrumBar: {
+      flex: 1,
+      marginHorizontal: 1,
+      borderTopLeftRadius: 2,
+      borderTopRightRadius: 2,
+      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+    },
+    waveform: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 6,
+    },
+    waveBar: {
+      flex: 1,
+      marginHorizontal: 0.5,
+      backgroundColor: scheme === 'dark' ? '#64748b' : '#94a3b8',
+    },
+  });
@@ -0,0 +1,67 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { AppState } from 'react-native';
+import { Track } from '../types';
+import { getTracks, scanLibrary } from '../services/library';
+
+export interface LibraryContextValue {
+  tracks: Track[];
+  tracksById: Map<string, Track>;
+  isLoaded: boolean;
+  isScanning: boolean;
+  rescan: () => Promise<void>;
+}
+
+const LibraryContext = createContext<LibraryContextValue | null>(null);
+
+export function LibraryProvider({ children }: { children: React.ReactNode }) {
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setTracks(await getTracks());
+    } catch (error) {
+      console.error('Failed to load library', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  const rescan = useCallback(async () => {
+    setIsScanning(true);
+    try {
+      await scanLibrary(reload);
+    } catch (error) {
+      console.error('Failed to scan library', error);
+    } finally {
+      setIsScanning(false);
+    }
+  }, [reload]);
+
+  useEffect(() => {
+    reload().then(rescan);
+  }, [reload, rescan]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') rescan();
+    });
+    return () => subscription.remove();
+  }, [rescan]);
+
+  const tracksById = useMemo(() => new Map(tracks.map((track) => [track.id, track])), [tracks]);
+
+  const value = useMemo<LibraryContextValue>(
+    () => ({ tracks, tracksById, isLoaded, isScanning, rescan }),
+    [tracks, tracksById, isLoaded, isScanning, rescan]
+  );
+
+  return <LibraryContext.Provider value={value}>{children}</LibraryContext.Provider>;
+}
+
+export const useLibrary = () => {
+  const context = useContext(LibraryContext);
+  if (!context) throw new Error('useLibrary must be used inside a LibraryProvider');
+  return context;
+};
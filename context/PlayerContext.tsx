@@ -0,0 +1,155 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import * as player from '../services/player';
+import * as sleepTimer from '../services/sleepTimer';
+import { resetNowPlaying, setNowPlaying, setupMediaSession, updatePlayback } from '../services/mediaSession';
+import { startPlayHistory } from '../services/playHistory';
+import { useLibrary } from './LibraryContext';
+
+export interface PlayerContextValue extends player.PlayerState {
+  isPlaying: boolean;
+  play: typeof player.play;
+  pause: typeof player.pause;
+  resume: typeof player.resume;
+  togglePlayPause: typeof player.togglePlayPause;
+  next: typeof player.next;
+  previous: typeof player.previous;
+  seekTo: typeof player.seekTo;
+  skipBy: typeof player.skipBy;
+  stop: typeof player.stop;
+  skipTo: typeof player.skipTo;
+  playNext: typeof player.playNext;
+  addToQueue: typeof player.addToQueue;
+  moveInQueue: typeof player.moveInQueue;
+  removeFromQueue: typeof player.removeFromQueue;
+  clearQueue: typeof player.clearQueue;
+  setShuffle: typeof player.setShuffle;
+  setRepeat: typeof player.setRepeat;
+  cycleRepeat: typeof player.cycleRepeat;
+  setCrossfade: typeof player.setCrossfade;
+  setGaplessAlbums: typeof player.setGaplessAlbums;
+  setReplayGain: typeof player.setReplayGain;
+  setPlaybackSpeed: typeof player.setPlaybackSpeed;
+  speedOf: typeof player.speedOf;
+  setPitchCorrection: typeof player.setPitchCorrection;
+  setSpokenWordMinutes: typeof player.setSpokenWordMinutes;
+  setSpokenWordFolder: typeof player.setSpokenWordFolder;
+  setSpokenWordFolders: typeof player.setSpokenWordFolders;
+  addListener: typeof player.addListener;
+  sleepTimer: sleepTimer.SleepTimerState;
+  startSleepTimer: typeof sleepTimer.startSleepTimer;
+  sleepAtEndOfTrack: typeof sleepTimer.sleepAtEndOfTrack;
+  extendSleepTimer: typeof sleepTimer.extendSleepTimer;
+  cancelSleepTimer: typeof sleepTimer.cancelSleepTimer;
+}
+
+const PlayerContext = createContext<PlayerContextValue | null>(null);
+
+export function PlayerProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<player.PlayerState>(player.getState());
+  const [sleepTimerState, setSleepTimerState] = useState(sleepTimer.getState());
+  const isPlaying = state.playbackState === 'playing' || state.playbackState === 'loading';
+  const sleepLabel = sleepTimer.describeSleepTimer(sleepTimerState);
+  const { tracks: libraryTracks, isLoaded: isLibraryLoaded } = useLibrary();
+  const restored = useRef(false);
+
+  useEffect(() => {
+    const unsubscribe = player.addListener('change', setState);
+    return unsubscribe;
+  }, []);
+
+  // The saved queue only holds track ids, so it is restored once the library has loaded.
+  useEffect(() => {
+    if (!isLibraryLoaded || restored.current) return;
+    restored.current = true;
+    player.restore(libraryTracks);
+  }, [isLibraryLoaded, libraryTracks]);
+
+  useEffect(() => startPlayHistory(), []);
+
+  useEffect(() => sleepTimer.addListener(setSleepTimerState), []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState !== 'active') player.checkpoint();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    const teardown = setupMediaSession({
+      play: player.resume,
+      pause: player.pause,
+      togglePlayPause: player.togglePlayPause,
+      next: player.next,
+      previous: player.previous,
+      seekTo: player.seekTo,
+      stop: player.stop,
+    });
+    const unsubscribe = player.addListener('seeked', (positionMillis) =>
+      updatePlayback(player.getState().playbackState === 'playing', positionMillis, player.getState().rate)
+    );
+    return () => {
+      unsubscribe();
+      teardown();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (state.currentTrack) setNowPlaying(state.currentTrack, state.durationMillis, sleepLabel);
+    else resetNowPlaying();
+  }, [state.currentTrack, state.durationMillis, sleepLabel]);
+
+  useEffect(() => {
+    if (state.currentTrack) updatePlayback(isPlaying, player.getState().positionMillis, state.rate);
+  }, [state.currentTrack, isPlaying, state.rate]);
+
+  const value = useMemo<PlayerContextValue>(
+    () => ({
+      ...state,
+      isPlaying,
+      play: player.play,
+      pause: player.pause,
+      resume: player.resume,
+      togglePlayPause: player.togglePlayPause,
+      next: player.next,
+      previous: player.previous,
+      seekTo: player.seekTo,
+      skipBy: player.skipBy,
+      stop: player.stop,
+      skipTo: player.skipTo,
+      playNext: player.playNext,
+      addToQueue: player.addToQueue,
+      moveInQueue: player.moveInQueue,
+      removeFromQueue: player.removeFromQueue,
+      clearQueue: player.clearQueue,
+      setShuffle: player.setShuffle,
+      setRepeat: player.setRepeat,
+      cycleRepeat: player.cycleRepeat,
+      setCrossfade: player.setCrossfade,
+      setGaplessAlbums: player.setGaplessAlbums,
+      setReplayGain: player.setReplayGain,
+      setPlaybackSpeed: player.setPlaybackSpeed,
+      speedOf: player.speedOf,
+      setPitchCorrection: player.setPitchCorrection,
+      setSpokenWordMinutes: player.setSpokenWordMinutes,
+      setSpokenWordFolder: player.setSpokenWordFolder,
+      setSpokenWordFolders: player.setSpokenWordFolders,
+      addListener: player.addListener,
+      sleepTimer: sleepTimerState,
+      startSleepTimer: sleepTimer.startSleepTimer,
+      sleepAtEndOfTrack: sleepTimer.sleepAtEndOfTrack,
+      extendSleepTimer: sleepTimer.extendSleepTimer,
+      cancelSleepTimer: sleepTimer.cancelSleepTimer,
+    }),
+    [state, isPlaying, sleepTimerState]
+  );
+
+  return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>;
+}
+
+export const usePlayer = () => {
+  const context = useContext(PlayerContext);
+  if (!context) throw new Error('usePlayer must be used inside a PlayerProvider');
+  return context;
+};
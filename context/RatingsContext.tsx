@@ -0,0 +1,63 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Ratings } from '../types';
+import * as ratingStorage from '../services/ratings';
+
+export interface RatingsContextValue {
+  ratings: Ratings;
+  isFavourite: (trackId: string) => boolean;
+  ratingOf: (trackId: string) => number;
+  toggleFavourite: (trackId: string) => void;
+  setFavourite: (trackIds: string[], liked: boolean) => void;
+  setRating: (trackId: string, rating: number) => void;
+  restoreRatings: (previous: Ratings) => void;
+  reload: () => Promise<void>;
+}
+
+const RatingsContext = createContext<RatingsContextValue | null>(null);
+
+export function RatingsProvider({ children }: { children: React.ReactNode }) {
+  const [ratings, setRatings] = useState<Ratings>({});
+  // Quick taps (a heart and then a star) each build on the one before, even before React has re-rendered.
+  const latest = useRef<Ratings>({});
+
+  const reload = useCallback(async () => {
+    latest.current = await ratingStorage.loadRatings();
+    setRatings(latest.current);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // The screen updates straight away; the store is written in the background.
+  const update = useCallback((change: (current: Ratings) => Ratings) => {
+    latest.current = change(latest.current);
+    setRatings(latest.current);
+    ratingStorage.saveRatings(latest.current);
+  }, []);
+
+  const value = useMemo<RatingsContextValue>(
+    () => ({
+      ratings,
+      isFavourite: (trackId) => ratingStorage.isFavourite(ratings, trackId),
+      ratingOf: (trackId) => ratingStorage.ratingOf(ratings, trackId),
+      toggleFavourite: (trackId) => update((current) => ratingStorage.toggleFavourite(current, trackId)),
+      setFavourite: (trackIds, liked) =>
+        update((current) =>
+          trackIds.reduce((updated, trackId) => ratingStorage.setFavourite(updated, trackId, liked), current)
+        ),
+      setRating: (trackId, rating) => update((current) => ratingStorage.setRating(current, trackId, rating)),
+      restoreRatings: (previous) => update((current) => ({ ...current, ...previous })),
+      reload,
+    }),
+    [ratings, update, reload]
+  );
+
+  return <RatingsContext.Provider value={value}>{children}</RatingsContext.Provider>;
+}
+
+export const useRatings = () => {
+  const context = useContext(RatingsContext);
+  if (!context) throw new Error('useRatings must be used inside a RatingsProvider');
+  return context;
+};
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Alert,
+  Dimensions,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useLibrary } from '../context/LibraryContext';
+import { usePlayer } from '../context/PlayerContext';
+import { GroupRow, PlayAllBar, TrackRow } from '../components/BrowseRows';
+import {
+  buildFolderTree,
+  describeCount,
+  findFolder,
+  folderTracks,
+  getAlbums,
+  tracksForView,
+  FolderNode,
+  TrackGroup,
+} from '../services/browse';
+import { BrowseView, RootStackParamList, Track } from '../types';
+
+type Row = { group: TrackGroup } | { folder: FolderNode } | { track: Track; index: number };
+
+const getOrientation = (): 'portrait' | 'landscape' => {
+  const { width, height } = Dimensions.get('window');
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export default function BrowseDetailScreen() {
+  const colorScheme = useColorScheme();
+  const [orientation, setOrientation] = useState(getOrientation());
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const { view } = useRoute<RouteProp<RootStackParamList, 'BrowseDetailScreen'>>().params;
+  const { tracks } = useLibrary();
+  const { currentTrack, play, setShuffle, playNext, addToQueue, spokenWordFolders, setSpokenWordFolder } = usePlayer();
+
+  const allTracks = useMemo(() => tracksForView(tracks, view), [tracks, view]);
+  const folder = useMemo(
+    () => (view.kind === 'folder' ? findFolder(buildFolderTree(tracks), view.key) : undefined),
+    [tracks, view]
+  );
+  // Tracks listed directly on this screen; a folder lists its own files under its subfolders.
+  const listedTracks = folder ? folder.tracks : allTracks;
+  const albums = useMemo(() => (view.kind === 'artist' ? getAlbums(allTracks) : []), [view.kind, allTracks]);
+  const artwork = view.kind === 'album' ? allTracks.find((track) => track.artwork)?.artwork : undefined;
+
+  useEffect(() => {
+    const subscription = Dimensions.addEventListener('change', () => {
+      setOrientation(getOrientation());
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  const rows: Row[] =
+    view.kind === 'artist'
+      ? albums.map((group) => ({ group }))
+      : [
+          ...(folder?.folders.map((child) => ({ folder: child })) || []),
+          ...listedTracks.map((track, index) => ({ track, index })),
+        ];
+
+  // A folder inside a marked one is already covered and can only be changed from the folder that was marked.
+  const markedSpokenWord = view.kind === 'folder' && spokenWordFolders.includes(view.key);
+  const inheritsSpokenWord =
+    view.kind === 'folder' && !markedSpokenWord && spokenWordFolders.some((path) => view.key.startsWith(`${path}/`));
+
+  const openView = (next: BrowseView) => navigation.push('BrowseDetailScreen', { view: next });
+
+  const playAll = (shuffled: boolean) => {
+    if (allTracks.length === 0) return;
+    setShuffle(shuffled);
+    play(allTracks, shuffled ? Math.floor(Math.random() * allTracks.length) : 0, { type: 'browse', view });
+  };
+
+  const showQueueActions = (track: Track) => {
+    Alert.alert(track.title || track.filename, undefined, [
+      { text: 'Play Next', onPress: () => playNext([track]) },
+      { text: 'Add to Queue', onPress: () => addToQueue([track]) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderRow = ({ item }: { item: Row }) => {
+    if ('group' in item) {
+      return (
+        <GroupRow
+          name={item.group.name}
+          subtitle={[item.group.tracks[0].year, describeCount(item.group.tracks.length, 'song')].filter(Boolean).join(' · ')}
+          icon="💿"
+          artwork={item.group.artwork}
+          onPress={() => openView({ kind: 'album', key: item.group.key, name: item.group.name })}
+        />
+      );
+    }
+    if ('folder' in item) {
+      return (
+        <GroupRow
+          name={item.folder.name}
+          subtitle={describeCount(folderTracks(item.folder).length, 'song')}
+          icon="📁"
+          onPress={() => openView({ kind: 'folder', key: item.folder.path, name: item.folder.name })}
+        />
+      );
+    }
+    return (
+      <TrackRow
+        track={item.track}
+        isCurrent={currentTrack?.id === item.track.id}
+        leading={view.kind === 'album' ? String(item.track.trackNumber ?? '') : undefined}
+        subtitle={view.kind === 'folder' ? item.track.filename : undefined}
+        onPress={() => play(listedTracks, item.index, { type: 'browse', view })}
+        onLongPress={() => showQueueActions(item.track)}
+      />
+    );
+  };
+
+  return (
+    <View style={styles(colorScheme, orientation).container}>
+      <FlatList
+        data={rows}
+        keyExtractor={(item) => ('group' in item ? item.group.key : 'folder' in item ? item.folder.path : item.track.id)}
+        renderItem={renderRow}
+        contentContainerStyle={{ paddingBottom: 80 }}
+        ListHeaderComponent={
+          <View style={styles(colorScheme, orientation).header}>
+            {artwork && <Image source={{ uri: artwork }} style={styles(colorScheme, orientation).artwork} />}
+            <Text numberOfLines={2} style={styles(colorScheme, orientation).title}>
+              {view.name}
+            </Text>
+            <Text style={styles(colorScheme, orientation).subtitle}>
+              {view.kind === 'artist'
+                ? `${describeCount(albums.length, 'album')} · ${describeCount(allTracks.length, 'song')}`
+                : describeCount(allTracks.length, 'song')}
+            </Text>
+            <PlayAllBar onPlay={() => playAll(false)} onShuffle={() => playAll(true)} />
+            {view.kind === 'folder' && (
+              <TouchableOpacity
+                disabled={inheritsSpokenWord}
+                onPress={() => setSpokenWordFolder(view.key, !markedSpokenWord)}
+                style={[
+                  styles(colorScheme, orientation).spokenWordButton,
+                  (markedSpokenWord || inheritsSpokenWord) && styles(colorScheme, orientation).spokenWordActive,
+                ]}
+              >
+                <Text style={styles(colorScheme, orientation).spokenWordText}>
+                  {markedSpokenWord
+                    ? '🎧 Audiobooks & podcasts · On'
+                    : inheritsSpokenWord
+                      ? '🎧 Audiobooks & podcasts (set on a parent folder)'
+                      : '🎧 Treat as audiobooks & podcasts'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        }
+        ListEmptyComponent={<Text style={styles(colorScheme, orientation).emptyText}>No songs found</Text>}
+      />
+
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).backButton}>
+        <Text style={styles(colorScheme, orientation).backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f8fafc',
+      paddingHorizontal: orientation === 'portrait' ? 16 : 24,
+      paddingTop: orientation === 'portrait' ? 50 : 30,
+    },
+    header: {
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    artwork: {
+      width: orientation === 'portrait' ? 200 : 140,
+      height: orientation === 'portrait' ? 200 : 140,
+      borderRadius: 16,
+      marginBottom: 12,
+      backgroundColor: scheme === 'dark' ? '#000000' : '#d1d5db',
+    },
+    title: {
+      fontSize: orientation === 'portrait' ? 26 : 28,
+      fontFamily: 'Poppins-Bold',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      textAlign: 'center',
+    },
+    subtitle: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-Regular',
+      marginBottom: 12,
+    },
+    spokenWordButton: {
+      marginTop: 8,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+    },
+    spokenWordActive: {
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    spokenWordText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      textAlign: 'center',
+      marginTop: 20,
+      fontSize: 16,
+      fontFamily: 'Poppins-Regular',
+    },
+    backButton: {
+      position: 'absolute',
+      bottom: 20,
+      left: 16,
+      right: 16,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Dimensions,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useLibrary } from '../context/LibraryContext';
+import { usePlayer } from '../context/PlayerContext';
+import { GroupRow, TrackRow } from '../components/BrowseRows';
+import {
+  albumKey,
+  buildFolderTree,
+  describeCount,
+  folderTracks,
+  getAlbums,
+  getArtists,
+  getGenres,
+  TrackGroup,
+} from '../services/browse';
+import { BrowseKind, BrowseView } from '../types';
+
+const TABS: { kind: BrowseKind; label: string }[] = [
+  { kind: 'artist', label: 'Artists' },
+  { kind: 'album', label: 'Albums' },
+  { kind: 'genre', label: 'Genres' },
+  { kind: 'folder', label: 'Folders' },
+];
+
+const getOrientation = (): 'portrait' | 'landscape' => {
+  const { width, height } = Dimensions.get('window');
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export default function BrowseScreen() {
+  const colorScheme = useColorScheme();
+  const [orientation, setOrientation] = useState(getOrientation());
+  const [tab, setTab] = useState<BrowseKind>('artist');
+  const navigation = useNavigation();
+  const { tracks, isScanning } = useLibrary();
+  const { currentTrack, play } = usePlayer();
+
+  const artists = useMemo(() => getArtists(tracks), [tracks]);
+  const albums = useMemo(() => getAlbums(tracks), [tracks]);
+  const genres = useMemo(() => getGenres(tracks), [tracks]);
+  const folderTree = useMemo(() => buildFolderTree(tracks), [tracks]);
+  const albumColumns = orientation === 'portrait' ? 2 : 4;
+
+  useEffect(() => {
+    const subscription = Dimensions.addEventListener('change', () => {
+      setOrientation(getOrientation());
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  const openView = (view: BrowseView) => navigation.navigate('BrowseDetailScreen', { view });
+
+  const emptyText = (
+    <Text style={styles(colorScheme, orientation).emptyText}>
+      {isScanning ? 'Scanning library...' : 'No songs found'}
+    </Text>
+  );
+
+  const renderGroups = (groups: TrackGroup[], kind: BrowseKind, icon: string) => (
+    <FlatList
+      data={groups}
+      keyExtractor={(item) => item.key}
+      contentContainerStyle={{ paddingBottom: 80 }}
+      ListEmptyComponent={emptyText}
+      renderItem={({ item }) => (
+        <GroupRow
+          name={item.name}
+          subtitle={
+            kind === 'artist'
+              ? `${describeCount(new Set(item.tracks.map(albumKey)).size, 'album')} · ${describeCount(item.tracks.length, 'song')}`
+              : describeCount(item.tracks.length, 'song')
+          }
+          icon={icon}
+          onPress={() => openView({ kind, key: item.key, name: item.name })}
+        />
+      )}
+    />
+  );
+
+  const renderAlbums = () => (
+    <FlatList
+      key={albumColumns}
+      data={albums}
+      numColumns={albumColumns}
+      keyExtractor={(item) => item.key}
+      contentContainerStyle={{ paddingBottom: 80 }}
+      ListEmptyComponent={emptyText}
+      renderItem={({ item }) => (
+        <TouchableOpacity
+          onPress={() => openView({ kind: 'album', key: item.key, name: item.name })}
+          style={[styles(colorScheme, orientation).albumCard, { width: `${100 / albumColumns}%` }]}
+        >
+          <Image
+            source={{ uri: item.artwork || 'https://via.placeholder.com/150' }}
+            style={styles(colorScheme, orientation).albumCover}
+          />
+          <Text numberOfLines={1} style={styles(colorScheme, orientation).albumTitle}>
+            {item.name}
+          </Text>
+          <Text numberOfLines={1} style={styles(colorScheme, orientation).albumArtist}>
+            {item.subtitle}
+          </Text>
+        </TouchableOpacity>
+      )}
+    />
+  );
+
+  const renderFolders = () => {
+    const rootView: BrowseView = { kind: 'folder', key: folderTree.path, name: folderTree.name };
+    return (
+      <FlatList
+        data={[...folderTree.folders.map((folder) => ({ folder })), ...folderTree.tracks.map((track) => ({ track }))]}
+        keyExtractor={(item) => ('folder' in item ? item.folder.path : item.track.id)}
+        contentContainerStyle={{ paddingBottom: 80 }}
+        ListEmptyComponent={emptyText}
+        renderItem={({ item, index }) =>
+          'folder' in item ? (
+            <GroupRow
+              name={item.folder.name}
+              subtitle={describeCount(folderTracks(item.folder).length, 'song')}
+              icon="📁"
+              onPress={() => openView({ kind: 'folder', key: item.folder.path, name: item.folder.name })}
+            />
+          ) : (
+            <TrackRow
+              track={item.track}
+              isCurrent={currentTrack?.id === item.track.id}
+              onPress={() =>
+                play(folderTree.tracks, index - folderTree.folders.length, { type: 'browse', view: rootView })
+              }
+            />
+          )
+        }
+      />
+    );
+  };
+
+  return (
+    <View style={styles(colorScheme, orientation).container}>
+      <Text style={styles(colorScheme, orientation).title}>Library</Text>
+      <View style={styles(colorScheme, orientation).tabBar}>
+        {TABS.map(({ kind, label }) => (
+          <TouchableOpacity
+            key={kind}
+            onPress={() => setTab(kind)}
+            style={[styles(colorScheme, orientation).tab, tab === kind && styles(colorScheme, orientation).activeTab]}
+          >
+            <Text
+              style={[
+                styles(colorScheme, orientation).tabText,
+                tab === kind && styles(colorScheme, orientation).activeTabText,
+              ]}
+            >
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === 'artist' && renderGroups(artists, 'artist', '🎤')}
+      {tab === 'album' && renderAlbums()}
+      {tab === 'genre' && renderGroups(genres, 'genre', '🏷')}
+      {tab === 'folder' && renderFolders()}
+
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).backButton}>
+        <Text style={styles(colorScheme, orientation).backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f8fafc',
+      paddingHorizontal: orientation === 'portrait' ? 16 : 24,
+      paddingTop: orientation === 'portrait' ? 50 : 30,
+    },
+    title: {
+      fontSize: orientation === 'portrait' ? 32 : 36,
+      fontFamily: 'Poppins-Black',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      marginBottom: 16,
+    },
+    tabBar: {
+      flexDirection: 'row',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      borderRadius: 12,
+      padding: 4,
+      marginBottom: 12,
+    },
+    tab: {
+      flex: 1,
+      paddingVertical: 8,
+      borderRadius: 10,
+      alignItems: 'center',
+    },
+    activeTab: {
+      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#ffffff',
+    },
+    tabText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-Medium',
+    },
+    activeTabText: {
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    albumCard: {
+      padding: 6,
+    },
+    albumCover: {
+      width: '100%',
+      aspectRatio: 1,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#000000' : '#d1d5db',
+    },
+    albumTitle: {
+      marginTop: 6,
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    albumArtist: {
+      fontSize: 12,
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+      fontFamily: 'Poppins-Regular',
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      textAlign: 'center',
+      marginTop: 20,
+      fontSize: 16,
+      fontFamily: 'Poppins-Regular',
+    },
+    backButton: {
+      position: 'absolute',
+      bottom: 20,
+      left: 16,
+      right: 16,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      fontWeight: '600',
+    },
+  });
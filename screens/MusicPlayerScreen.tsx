@@ -1,48 +1,73 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
   Text,
   TouchableOpacity,
   FlatList,
+  SectionList,
   Animated,
   TextInput,
   useColorScheme,
+  ColorSchemeName,
   Dimensions,
   Platform,
+  Alert,
+  Modal,
 } from 'react-native';
-import { Audio } from 'expo-av';
-import * as MediaLibrary from 'expo-media-library';
-import { useNavigation } from '@react-navigation/native';
-import * as Notifications from 'expo-notifications';
-
-interface Track {
-  id: string;
-  uri: string;
-  filename: string;
-  duration?: number;
-}
-
-const getOrientation = () => {
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { usePlayer } from '../context/PlayerContext';
+import PlaybackModes from '../components/PlaybackModes';
+import { GroupRow } from '../components/BrowseRows';
+import { FavouriteButton } from '../components/RatingControls';
+import SelectionBar, { toggleId } from '../components/SelectionBar';
+import { SpectrumBars } from '../components/Visualizer';
+import { useLibrary } from '../context/LibraryContext';
+import { describeCount, TrackGroup } from '../services/browse';
+import { addTracks, loadPlaylists, savePlaylists } from '../services/playlists';
+import { buildSearchIndex, search } from '../services/search';
+import {
+  addToSearchHistory,
+  clearSearchHistory,
+  loadSearchHistory,
+  removeFromSearchHistory,
+} from '../services/searchHistory';
+import { Playlist, Track } from '../types';
+import { formatTime } from '../utils/time';
+
+type SearchRow =
+  | { kind: 'song'; track: Track; index: number }
+  | { kind: 'artist' | 'album'; group: TrackGroup }
+  | { kind: 'playlist'; playlist: Playlist };
+
+const getOrientation = (): 'portrait' | 'landscape' => {
   const { width, height } = Dimensions.get('window');
   return width > height ? 'landscape' : 'portrait';
 };
 
 export default function MusicPlayerScreen() {
   const colorScheme = useColorScheme();
-  const [currentSound, setCurrentSound] = useState<Audio.Sound | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [musicFiles, setMusicFiles] = useState<Track[]>([]);
-  const [filteredMusicFiles, setFilteredMusicFiles] = useState<Track[]>([]);
-  const [currentTrackIndex, setCurrentTrackIndex] = useState<number>(-1);
-  const [shouldPlayNext, setShouldPlayNext] = useState(true);
+  const { tracks: musicFiles } = useLibrary();
   const [searchText, setSearchText] = useState('');
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pickerVisible, setPickerVisible] = useState(false);
   const [orientation, setOrientation] = useState(getOrientation());
   const fadeAnim = useState(new Animated.Value(0))[0];
   const scaleAnim = useState(new Animated.Value(1))[0];
   const navigation = useNavigation();
-  const animatedValues = musicFiles.map(() => new Animated.Value(1));
-  const notificationIdRef = useRef<string | null>(null);
+  const { currentTrack, isPlaying, rate, play, togglePlayPause, next, previous, playNext, addToQueue, speedOf } =
+    usePlayer();
+  const searchIndex = useMemo(() => buildSearchIndex(musicFiles, playlists), [musicFiles, playlists]);
+  const results = useMemo(() => search(searchIndex, searchText), [searchIndex, searchText]);
+  const sections = [
+    { title: 'Songs', data: results.songs.map((track, index): SearchRow => ({ kind: 'song', track, index })) },
+    { title: 'Artists', data: results.artists.map((group): SearchRow => ({ kind: 'artist', group })) },
+    { title: 'Albums', data: results.albums.map((group): SearchRow => ({ kind: 'album', group })) },
+    { title: 'Playlists', data: results.playlists.map((playlist): SearchRow => ({ kind: 'playlist', playlist })) },
+  ].filter((section) => section.data.length > 0);
 
   useEffect(() => {
     const subscription = Dimensions.addEventListener('change', () => {
@@ -51,283 +76,312 @@ export default function MusicPlayerScreen() {
     return () => subscription?.remove();
   }, []);
 
-  useEffect(() => {
-    const setupNotifications = async () => {
-      await Notifications.setNotificationHandler({
-        handleNotification: async () => ({
-          shouldShowAlert: true,
-          shouldPlaySound: false,
-          shouldSetBadge: false,
-        }),
-      });
-
-      await Notifications.setNotificationCategoryAsync('musicControls', [
-        { identifier: 'play', buttonTitle: 'Play' },
-        { identifier: 'pause', buttonTitle: 'Pause' },
-        { identifier: 'next', buttonTitle: 'Next' },
-        { identifier: 'previous', buttonTitle: 'Previous' },
-      ]);
-    };
-
-    setupNotifications();
-    const subscription = Notifications.addNotificationResponseReceivedListener(handleNotificationResponse);
-    return () => subscription.remove();
-  }, []);
+  useFocusEffect(
+    useCallback(() => {
+      loadPlaylists().then(setPlaylists);
+      loadSearchHistory().then(setSearchHistory);
+    }, [])
+  );
 
   useEffect(() => {
-    const loadAudioFiles = async () => {
-      const allAudio = await fetchAllAudioFiles();
-      setMusicFiles(allAudio);
-      setFilteredMusicFiles(allAudio);
-    };
-    loadAudioFiles();
-
-    return () => {
-      const cleanup = async () => {
-        if (currentSound) await currentSound.unloadAsync();
-        await dismissNotification();
-      };
-      cleanup();
-    };
-  }, []);
-
-  const fetchAllAudioFiles = async (): Promise<Track[]> => {
-    const { status } = await MediaLibrary.requestPermissionsAsync();
-    if (status !== 'granted') return [];
-
-    let allAudioFiles: MediaLibrary.Asset[] = [];
-    let hasNextPage = true;
-    let after: string | undefined;
-
-    while (hasNextPage) {
-      const media = await MediaLibrary.getAssetsAsync({
-        mediaType: 'audio',
-        first: 100,
-        after,
-      });
-      allAudioFiles = [...allAudioFiles, ...media.assets];
-      hasNextPage = media.hasNextPage;
-      after = media.endCursor;
-    }
-
-    return allAudioFiles.map((item) => ({
-      id: item.id,
-      uri: item.uri,
-      filename: item.filename,
-      duration: item.duration || 0,
-    }));
-  };
-
-  const stopCurrentSound = async () => {
-    if (currentSound) {
-      await currentSound.stopAsync();
-      await currentSound.unloadAsync();
-      setCurrentSound(null);
-    }
-  };
-
-  const playSound = async (index: number, fromNext = false) => {
-    await stopCurrentSound();
-    await Audio.setAudioModeAsync({
-      staysActiveInBackground: true,
-      playsInSilentModeIOS: true,
-      shouldDuckAndroid: true,
-    });
-
-    const { sound } = await Audio.Sound.createAsync(
-      { uri: musicFiles[index].uri },
-      { shouldPlay: true }
-    );
-
-    setCurrentSound(sound);
-    setIsPlaying(true);
-    setCurrentTrackIndex(index);
-    setShouldPlayNext(fromNext);
-
-    sound.setOnPlaybackStatusUpdate(async (status) => {
-      if (!status.isLoaded) return;
-      if (status.didJustFinish && shouldPlayNext) {
-        const nextIndex = (index + 1) % musicFiles.length;
-        await playSound(nextIndex, true);
-      } else if (status.didJustFinish) {
-        await stopCurrentSound();
-        setIsPlaying(false);
-        setCurrentTrackIndex(-1);
-        await dismissNotification();
-      }
-    });
-
-    await updateNotification(musicFiles[index]);
+    if (!currentTrack) return;
     Animated.parallel([
       Animated.timing(fadeAnim, { toValue: 1, duration: 400, useNativeDriver: true }),
       Animated.spring(scaleAnim, { toValue: 1, friction: 8, useNativeDriver: true }),
     ]).start();
-    animateEqualizer(index);
-  };
-
-  const togglePlayPause = async () => {
-    if (!currentSound || currentTrackIndex === -1) return;
-    if (isPlaying) {
-      await currentSound.pauseAsync();
-      setIsPlaying(false);
-    } else {
-      await currentSound.playAsync();
-      setIsPlaying(true);
-      animateEqualizer(currentTrackIndex);
-    }
-    await updateNotification(musicFiles[currentTrackIndex]);
-  };
-
-  const playNext = async () => {
-    if (musicFiles.length === 0) return;
-    const nextIndex = (currentTrackIndex + 1) % musicFiles.length;
-    setShouldPlayNext(true);
-    await playSound(nextIndex, true);
-  };
+  }, [currentTrack?.id]);
 
-  const playPrevious = async () => {
-    if (musicFiles.length === 0) return;
-    const prevIndex = (currentTrackIndex - 1 + musicFiles.length) % musicFiles.length;
-    setShouldPlayNext(true);
-    await playSound(prevIndex, true);
-  };
-
-  const dismissNotification = async () => {
-    if (notificationIdRef.current) {
-      await Notifications.dismissNotificationAsync(notificationIdRef.current);
-      notificationIdRef.current = null;
-    }
-  };
-
-  const updateNotification = async (track: Track) => {
-    await Notifications.dismissAllNotificationsAsync();
+  const playSound = (index: number) => play(musicFiles, index, { type: 'library' });
 
-    const content = {
-      title: 'Now Playing',
-      body: `${track.filename} - ${isPlaying ? 'Playing' : 'Paused'}`,
-      sticky: true,
-      data: { trackId: track.id },
-      categoryIdentifier: 'musicControls',
-    };
+  const rememberSearch = async () => setSearchHistory(await addToSearchHistory(searchText));
 
-    const notificationId = await Notifications.scheduleNotificationAsync({
-      content,
-      trigger: null,
-    });
-    notificationIdRef.current = notificationId;
+  const openSearchResult = (row: SearchRow) => {
+    rememberSearch();
+    if (row.kind === 'song') play(results.songs, row.index, { type: 'search', query: searchText });
+    else if (row.kind === 'playlist') navigation.navigate('PlaylistScreen', { playlistId: row.playlist.id });
+    else navigation.navigate('BrowseDetailScreen', { view: { kind: row.kind, key: row.group.key, name: row.group.name } });
   };
 
-  const handleNotificationResponse = async (response: Notifications.NotificationResponse) => {
-    const actionIdentifier = response.actionIdentifier;
+  // Selections keep library order, not the order they were tapped.
+  const selectedTracks = musicFiles.filter((track) => selectedIds.has(track.id));
 
-    switch (actionIdentifier) {
-      case 'play':
-        if (!isPlaying && currentTrackIndex !== -1) await togglePlayPause();
-        else if (currentTrackIndex === -1 && musicFiles.length > 0) await playSound(0);
-        break;
-      case 'pause':
-        if (isPlaying) await togglePlayPause();
-        break;
-      case 'next':
-        await playNext();
-        break;
-      case 'previous':
-        await playPrevious();
-        break;
-      case Notifications.DEFAULT:
-        if (currentTrackIndex !== -1) await playSound(currentTrackIndex);
-        break;
-    }
+  const addSelectedToPlaylist = async (playlistId: string) => {
+    const ids = selectedTracks.map((track) => track.id);
+    const updated = playlists.map((playlist) => (playlist.id === playlistId ? addTracks(playlist, ids) : playlist));
+    setPickerVisible(false);
+    if (!(await savePlaylists(updated))) return;
+    setPlaylists(updated);
+    setSelectedIds(new Set());
   };
 
-  const animateEqualizer = (index: number) => {
-    if (index < 0 || index >= animatedValues.length) return;
-    const animation = Animated.loop(
-      Animated.sequence([
-        Animated.timing(animatedValues[index], { toValue: 1.8, duration: 200, useNativeDriver: true }),
-        Animated.timing(animatedValues[index], { toValue: 1, duration: 200, useNativeDriver: true }),
-      ])
-    );
-    animation.start();
+  const showQueueActions = (track: Track) => {
+    Alert.alert(track.title || track.filename, undefined, [
+      { text: 'Play Next', onPress: () => playNext([track]) },
+      { text: 'Add to Queue', onPress: () => addToQueue([track]) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
   };
 
-  const handleSearch = (text: string) => {
-    setSearchText(text);
-    setFilteredMusicFiles(
-      text
-        ? musicFiles.filter((file) => file.filename.toLowerCase().includes(text.toLowerCase()))
-        : musicFiles
+  const renderSong = (item: Track, onPress: () => void, onLongPress = () => showQueueActions(item)) => {
+    const isCurrent = currentTrack?.id === item.id;
+    return (
+      <TouchableOpacity
+        onPress={onPress}
+        onLongPress={onLongPress}
+        style={[
+          styles(colorScheme, orientation).songItem,
+          isCurrent && styles(colorScheme, orientation).currentSong,
+          selectedIds.has(item.id) && styles(colorScheme, orientation).selectedSong,
+        ]}
+      >
+        <View style={styles(colorScheme, orientation).songInfo}>
+          <Text numberOfLines={1} style={styles(colorScheme, orientation).songTitle}>
+            {item.title || item.filename}
+          </Text>
+          <Text numberOfLines={1} style={styles(colorScheme, orientation).songArtist}>
+            {item.artist || 'Unknown'}
+          </Text>
+        </View>
+        {!!item.duration && (
+          <Text style={styles(colorScheme, orientation).durationText}>
+            {formatTime((item.duration * 1000) / speedOf(item))}
+          </Text>
+        )}
+        {isCurrent && <SpectrumBars />}
+        <FavouriteButton trackId={item.id} />
+      </TouchableOpacity>
     );
   };
 
   return (
     <View style={styles(colorScheme, orientation).container}>
-      <Text style={styles(colorScheme, orientation).title}>Music Player</Text>
+      <View style={styles(colorScheme, orientation).header}>
+        <Text style={styles(colorScheme, orientation).title}>Music Player</Text>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('StatsScreen')}
+          style={styles(colorScheme, orientation).statsButton}
+        >
+          <Text style={styles(colorScheme, orientation).settingsIcon}>📊</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('SettingsScreen')}
+          style={styles(colorScheme, orientation).settingsButton}
+        >
+          <Text style={styles(colorScheme, orientation).settingsIcon}>⚙</Text>
+        </TouchableOpacity>
+      </View>
       <TextInput
         style={styles(colorScheme, orientation).searchInput}
-        placeholder="Search Songs..."
+        placeholder="Search songs, artists, albums, playlists..."
         placeholderTextColor={colorScheme === 'dark' ? '#9ca3af' : '#6b7280'}
         value={searchText}
-        onChangeText={handleSearch}
-      />
-      <FlatList
-        data={filteredMusicFiles}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={{ paddingBottom: 120 }}
-        renderItem={({ item, index }) => {
-          const isCurrent = currentTrackIndex === index;
-          return (
-            <TouchableOpacity
-              onPress={() => playSound(index)}
-              style={[styles(colorScheme, orientation).songItem, isCurrent && styles(colorScheme, orientation).currentSong]}
-            >
-              <Text style={styles(colorScheme, orientation).songTitle}>{item.filename}</Text>
-              {isCurrent && (
-                <View style={styles(colorScheme, orientation).equalizer}>
-                  {[...Array(3)].map((_, i) => (
-                    <Animated.View
-                      key={i}
-                      style={[styles(colorScheme, orientation).bar, { transform: [{ scaleY: animatedValues[index] }] }]}
-                    />
-                  ))}
-                </View>
-              )}
-            </TouchableOpacity>
-          );
-        }}
+        onChangeText={setSearchText}
+        onFocus={() => setIsSearchFocused(true)}
+        onBlur={() => setIsSearchFocused(false)}
+        onSubmitEditing={rememberSearch}
+        returnKeyType="search"
       />
-      {currentTrackIndex !== -1 && (
+      {searchText.trim() ? (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) =>
+            item.kind === 'song' ? item.track.id : item.kind === 'playlist' ? item.playlist.id : `${item.kind}:${item.group.key}`
+          }
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ paddingBottom: 120 }}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles(colorScheme, orientation).sectionHeader}>{section.title}</Text>
+          )}
+          renderItem={({ item }) => {
+            if (item.kind === 'song') {
+              return renderSong(item.track, () => openSearchResult(item));
+            }
+            if (item.kind === 'playlist') {
+              return (
+                <GroupRow
+                  name={item.playlist.title}
+                  subtitle={item.playlist.rules ? 'Smart playlist' : describeCount(item.playlist.trackIds.length, 'song')}
+                  icon={item.playlist.rules ? '⚡' : '🎶'}
+                  onPress={() => openSearchResult(item)}
+                />
+              );
+            }
+            return (
+              <GroupRow
+                name={item.group.name}
+                subtitle={
+                  item.kind === 'album'
+                    ? `${item.group.subtitle} · ${describeCount(item.group.tracks.length, 'song')}`
+                    : describeCount(item.group.tracks.length, 'song')
+                }
+                icon={item.kind === 'album' ? '💿' : '🎤'}
+                artwork={item.group.artwork}
+                onPress={() => openSearchResult(item)}
+              />
+            );
+          }}
+          ListEmptyComponent={<Text style={styles(colorScheme, orientation).emptyText}>No results</Text>}
+        />
+      ) : isSearchFocused && searchHistory.length > 0 ? (
+        <FlatList
+          data={searchHistory}
+          keyExtractor={(item) => item}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={
+            <View style={styles(colorScheme, orientation).historyHeader}>
+              <Text style={styles(colorScheme, orientation).sectionHeader}>Recent Searches</Text>
+              <TouchableOpacity onPress={async () => setSearchHistory(await clearSearchHistory())}>
+                <Text style={styles(colorScheme, orientation).clearHistoryText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+          }
+          renderItem={({ item }) => (
+            <View style={styles(colorScheme, orientation).historyItem}>
+              <TouchableOpacity onPress={() => setSearchText(item)} style={styles(colorScheme, orientation).songInfo}>
+                <Text numberOfLines={1} style={styles(colorScheme, orientation).songTitle}>
+                  🕘 {item}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={async () => setSearchHistory(await removeFromSearchHistory(item))}>
+                <Text style={styles(colorScheme, orientation).songArtist}>✖</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        />
+      ) : (
+        <>
+          {selectedIds.size > 0 && (
+            <SelectionBar
+              count={selectedIds.size}
+              onCancel={() => setSelectedIds(new Set())}
+              onSelectAll={() => setSelectedIds(new Set(musicFiles.map((track) => track.id)))}
+              actions={[
+                { label: 'Add to Playlist', onPress: () => setPickerVisible(true) },
+                {
+                  label: 'Play Next',
+                  onPress: () => {
+                    playNext(selectedTracks);
+                    setSelectedIds(new Set());
+                  },
+                },
+                {
+                  label: 'Add to Queue',
+                  onPress: () => {
+                    addToQueue(selectedTracks);
+                    setSelectedIds(new Set());
+                  },
+                },
+              ]}
+            />
+          )}
+          <FlatList
+            data={musicFiles}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={{ paddingBottom: 120 }}
+            extraData={[selectedIds, rate]}
+            renderItem={({ item, index }) =>
+              renderSong(
+                item,
+                () => (selectedIds.size > 0 ? setSelectedIds(toggleId(selectedIds, item.id)) : playSound(index)),
+                () => setSelectedIds(toggleId(selectedIds, item.id))
+              )
+            }
+          />
+        </>
+      )}
+      {currentTrack && (
         <Animated.View
           style={[styles(colorScheme, orientation).controls, { opacity: fadeAnim, transform: [{ scale: scaleAnim }] }]}
         >
-          <TouchableOpacity onPress={playPrevious} style={styles(colorScheme, orientation).controlButton}>
-            <Text style={styles(colorScheme, orientation).icon}>⏮</Text>
-          </TouchableOpacity>
-          <TouchableOpacity onPress={togglePlayPause} style={styles(colorScheme, orientation).controlButton}>
-            <Text style={styles(colorScheme, orientation).icon}>{isPlaying ? '❚❚' : '▶'}</Text>
-          </TouchableOpacity>
-          <TouchableOpacity onPress={playNext} style={styles(colorScheme, orientation).controlButton}>
-            <Text style={styles(colorScheme, orientation).icon}>⏭</Text>
+          <TouchableOpacity onPress={() => navigation.navigate('NowPlayingScreen')}>
+            <Text numberOfLines={1} style={styles(colorScheme, orientation).nowPlayingTitle}>
+              {currentTrack.title || currentTrack.filename}
+            </Text>
           </TouchableOpacity>
+          <PlaybackModes />
+          <View style={styles(colorScheme, orientation).transportRow}>
+            <TouchableOpacity onPress={previous} style={styles(colorScheme, orientation).controlButton}>
+              <Text style={styles(colorScheme, orientation).icon}>⏮</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={togglePlayPause} style={styles(colorScheme, orientation).controlButton}>
+              <Text style={styles(colorScheme, orientation).icon}>{isPlaying ? '❚❚' : '▶'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={next} style={styles(colorScheme, orientation).controlButton}>
+              <Text style={styles(colorScheme, orientation).icon}>⏭</Text>
+            </TouchableOpacity>
+            <FavouriteButton trackId={currentTrack.id} size={24} />
+          </View>
         </Animated.View>
       )}
-     <TouchableOpacity
-        onPress={() => navigation.navigate('PlaylistScreen')}
-        style={styles(colorScheme, orientation).backButton}
-      >
-        <Text style={styles(colorScheme, orientation).backButtonText}>Playlist</Text>
-      </TouchableOpacity>
+      <Modal visible={pickerVisible} transparent animationType="slide" onRequestClose={() => setPickerVisible(false)}>
+        <View style={styles(colorScheme, orientation).modalOverlay}>
+          <View style={styles(colorScheme, orientation).modalCard}>
+            <Text style={styles(colorScheme, orientation).modalTitle}>
+              Add {describeCount(selectedIds.size, 'song')} to...
+            </Text>
+            {playlists.length === 0 && (
+              <Text style={styles(colorScheme, orientation).emptyText}>No playlists created yet</Text>
+            )}
+            {playlists.map((playlist) => (
+              <TouchableOpacity
+                key={playlist.id}
+                onPress={() => addSelectedToPlaylist(playlist.id)}
+                style={styles(colorScheme, orientation).pickerItem}
+              >
+                <Text style={styles(colorScheme, orientation).songTitle}>{playlist.title}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              onPress={() => setPickerVisible(false)}
+              style={styles(colorScheme, orientation).closeButton}
+            >
+              <Text style={styles(colorScheme, orientation).closeButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+      <View style={styles(colorScheme, orientation).navRow}>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('BrowseScreen')}
+          style={styles(colorScheme, orientation).backButton}
+        >
+          <Text style={styles(colorScheme, orientation).backButtonText}>Browse</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('PlaylistScreen')}
+          style={styles(colorScheme, orientation).backButton}
+        >
+          <Text style={styles(colorScheme, orientation).backButtonText}>Playlist</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 }
 
-const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'landscape') =>
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
   StyleSheet.create({
     container: {
       flex: 1,
       backgroundColor: scheme === 'dark' ? '#0f172a' : '#f8fafc',
       padding: orientation === 'portrait' ? 16 : 24,
     },
+    header: {
+      justifyContent: 'center',
+    },
+    settingsButton: {
+      position: 'absolute',
+      right: 0,
+      padding: 8,
+    },
+    statsButton: {
+      position: 'absolute',
+      left: 0,
+      padding: 8,
+    },
+    settingsIcon: {
+      fontSize: 24,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+    },
     title: {
       fontSize: orientation === 'portrait' ? 28 : 32,
       fontFamily: 'Poppins-Bold',
@@ -369,26 +423,62 @@ const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'land
       borderWidth: 1,
       borderColor: scheme === 'dark' ? '#3b82f6' : '#93c5fd',
     },
+    selectedSong: {
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    songInfo: {
+      flex: 1,
+    },
     songTitle: {
       fontSize: 16,
       color: scheme === 'dark' ? '#ffffff' : '#1e293b',
       fontFamily: 'Poppins-Regular',
-      flex: 1,
     },
-    equalizer: {
+    songArtist: {
+      fontSize: 13,
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+      fontFamily: 'Poppins-Regular',
+    },
+    durationText: {
+      fontSize: 13,
+      color: scheme === 'dark' ? '#9ca3af' : '#6b7280',
+      fontFamily: 'Poppins-Regular',
+      marginHorizontal: 8,
+    },
+    sectionHeader: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-SemiBold',
+      textTransform: 'uppercase',
+      marginTop: 12,
+      marginBottom: 4,
+    },
+    historyHeader: {
       flexDirection: 'row',
+      justifyContent: 'space-between',
       alignItems: 'center',
     },
-    bar: {
-      width: 4,
-      height: 20,
-      marginHorizontal: 2,
-      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#2563eb',
-      borderRadius: 2,
+    clearHistoryText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+      fontFamily: 'Poppins-SemiBold',
+      marginTop: 8,
     },
-    controls: {
+    historyItem: {
       flexDirection: 'row',
-      justifyContent: 'space-around',
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      textAlign: 'center',
+      marginTop: 20,
+      fontSize: 16,
+      fontFamily: 'Poppins-Regular',
+    },
+    controls: {
       marginTop: orientation === 'portrait' ? 30 : 40,
       backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
       padding: 16,
@@ -399,6 +489,18 @@ const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'land
       shadowRadius: 6,
       elevation: 8,
     },
+    nowPlayingTitle: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    transportRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+      alignItems: 'center',
+    },
     controlButton: {
       padding: 14,
       borderRadius: 50,
@@ -438,11 +540,58 @@ const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'land
       color: '#ffffff',
       fontFamily: 'Poppins-SemiBold',
     },
-    backButton: {
+    modalOverlay: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? 'rgba(0, 0, 0, 0.7)' : 'rgba(107, 114, 128, 0.7)',
+    },
+    modalCard: {
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
+      padding: 24,
+      borderRadius: 20,
+      width: orientation === 'portrait' ? '90%' : '70%',
+      alignItems: 'center',
+      elevation: 8,
+    },
+    modalTitle: {
+      fontSize: 22,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Bold',
+      marginBottom: 12,
+      textAlign: 'center',
+    },
+    pickerItem: {
+      width: '100%',
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#e2e8f0',
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      marginBottom: 8,
+    },
+    closeButton: {
+      backgroundColor: scheme === 'dark' ? '#000000' : '#d1d5db',
+      paddingVertical: 12,
+      borderRadius: 12,
+      marginTop: 12,
+      width: '100%',
+      alignItems: 'center',
+    },
+    closeButtonText: {
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontSize: 16,
+      fontFamily: 'Poppins-SemiBold',
+    },
+    navRow: {
       position: 'absolute',
       bottom: 10,
-      left: 8,
-      right: 8,
+      left: 4,
+      right: 4,
+      flexDirection: 'row',
+    },
+    backButton: {
+      flex: 1,
+      marginHorizontal: 4,
       backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
       paddingVertical: 7,
       borderRadius: 6,
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  Image,
+  Dimensions,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { useNavigation } from '@react-navigation/native';
+import { usePlayer } from '../context/PlayerContext';
+import PlaybackModes from '../components/PlaybackModes';
+import { FavouriteButton, StarRating } from '../components/RatingControls';
+import Visualizer from '../components/Visualizer';
+import BookmarksSheet from '../components/BookmarksSheet';
+import LyricsPanel from '../components/LyricsPanel';
+import OptionPicker from '../components/OptionPicker';
+import { chapterIndexAt } from '../services/chapters';
+import { SPOKEN_WORD_SKIP_MILLIS } from '../services/spokenWord';
+import { formatTime } from '../utils/time';
+
+const SKIP_MILLIS = 15000;
+
+const getOrientation = (): 'portrait' | 'landscape' => {
+  const { width, height } = Dimensions.get('window');
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export default function NowPlayingScreen() {
+  const colorScheme = useColorScheme();
+  const [orientation, setOrientation] = useState(getOrientation());
+  const [scrubMillis, setScrubMillis] = useState<number | null>(null);
+  const [chapterPickerVisible, setChapterPickerVisible] = useState(false);
+  const [bookmarksVisible, setBookmarksVisible] = useState(false);
+  const [showLyrics, setShowLyrics] = useState(false);
+  const navigation = useNavigation();
+  const {
+    currentTrack,
+    isPlaying,
+    positionMillis,
+    durationMillis,
+    rate,
+    spokenWord,
+    togglePlayPause,
+    next,
+    previous,
+    seekTo,
+    skipBy,
+  } = usePlayer();
+  const shownPosition = scrubMillis ?? positionMillis;
+  const skipMillis = spokenWord ? SPOKEN_WORD_SKIP_MILLIS : SKIP_MILLIS;
+  const chapters = currentTrack?.chapters || [];
+  const chapterIndex = chapterIndexAt(chapters, shownPosition);
+
+  useEffect(() => {
+    const subscription = Dimensions.addEventListener('change', () => {
+      setOrientation(getOrientation());
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  if (!currentTrack) {
+    return (
+      <View style={styles(colorScheme, orientation).container}>
+        <Text style={styles(colorScheme, orientation).emptyText}>Nothing is playing</Text>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).closeButton}>
+          <Text style={styles(colorScheme, orientation).closeButtonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles(colorScheme, orientation).container}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).dismissButton}>
+        <Text style={styles(colorScheme, orientation).dismissText}>⌄</Text>
+      </TouchableOpacity>
+
+      {/* Lyrics take the artwork's place so the controls below don't move. */}
+      {showLyrics ? (
+        <View style={styles(colorScheme, orientation).lyrics}>
+          <LyricsPanel track={currentTrack} />
+        </View>
+      ) : (
+        <Image
+          source={{ uri: currentTrack.artwork || 'https://via.placeholder.com/300' }}
+          style={styles(colorScheme, orientation).artwork}
+        />
+      )}
+
+      <View style={styles(colorScheme, orientation).details}>
+        <Text numberOfLines={2} style={styles(colorScheme, orientation).title}>
+          {currentTrack.title || currentTrack.filename}
+        </Text>
+        <Text numberOfLines={1} style={styles(colorScheme, orientation).subtitle}>
+          {currentTrack.artist || 'Unknown'}
+        </Text>
+        <Text numberOfLines={1} style={styles(colorScheme, orientation).subtitle}>
+          {currentTrack.album || 'Unknown'}
+        </Text>
+        <View style={styles(colorScheme, orientation).ratingRow}>
+          <FavouriteButton trackId={currentTrack.id} size={28} />
+          <StarRating trackId={currentTrack.id} />
+          <TouchableOpacity onPress={() => setShowLyrics(!showLyrics)}>
+            <Text style={styles(colorScheme, orientation).lyricsToggle}>{showLyrics ? 'Artwork' : 'Lyrics'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {spokenWord ? (
+        <View style={styles(colorScheme, orientation).spokenWordRow}>
+          {chapters.length > 0 && (
+            <>
+              <TouchableOpacity
+                disabled={chapterIndex <= 0}
+                onPress={() => seekTo(chapters[chapterIndex - 1].startMillis)}
+              >
+                <Text style={styles(colorScheme, orientation).skipText}>⏮</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setChapterPickerVisible(true)}
+                style={styles(colorScheme, orientation).chapterButton}
+              >
+                <Text numberOfLines={1} style={styles(colorScheme, orientation).chapterText}>
+                  {chapterIndex >= 0 ? chapters[chapterIndex].title : 'Chapters'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                disabled={chapterIndex >= chapters.length - 1}
+                onPress={() => seekTo(chapters[chapterIndex + 1].startMillis)}
+              >
+                <Text style={styles(colorScheme, orientation).skipText}>⏭</Text>
+              </TouchableOpacity>
+            </>
+          )}
+          <TouchableOpacity onPress={() => setBookmarksVisible(true)}>
+            <Text style={styles(colorScheme, orientation).skipText}>🔖</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        orientation === 'portrait' && <Visualizer />
+      )}
+
+      <Slider
+        style={styles(colorScheme, orientation).slider}
+        minimumValue={0}
+        maximumValue={Math.max(durationMillis, 1)}
+        value={shownPosition}
+        onValueChange={setScrubMillis}
+        onSlidingComplete={async (value) => {
+          await seekTo(value);
+          setScrubMillis(null);
+        }}
+        minimumTrackTintColor={colorScheme === 'dark' ? '#3b82f6' : '#2563eb'}
+        maximumTrackTintColor={colorScheme === 'dark' ? '#334155' : '#cbd5e1'}
+        thumbTintColor={colorScheme === 'dark' ? '#ffffff' : '#1e293b'}
+      />
+      {/* Times are in listening time, so they add up at any speed. */}
+      <View style={styles(colorScheme, orientation).timeRow}>
+        <Text style={styles(colorScheme, orientation).timeText}>{formatTime(shownPosition / rate)}</Text>
+        <Text style={styles(colorScheme, orientation).timeText}>{formatTime(durationMillis / rate)}</Text>
+        <Text style={styles(colorScheme, orientation).timeText}>
+          -{formatTime((durationMillis - shownPosition) / rate)}
+        </Text>
+      </View>
+
+      <PlaybackModes />
+      <View style={styles(colorScheme, orientation).transportRow}>
+        <TouchableOpacity onPress={previous}>
+          <Text style={styles(colorScheme, orientation).controlIcon}>⏮</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => skipBy(-skipMillis)}>
+          <Text style={styles(colorScheme, orientation).skipText}>-{skipMillis / 1000}s</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={togglePlayPause} style={styles(colorScheme, orientation).playButton}>
+          <Text style={styles(colorScheme, orientation).controlIcon}>{isPlaying ? '❚❚' : '▶'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => skipBy(skipMillis)}>
+          <Text style={styles(colorScheme, orientation).skipText}>+{skipMillis / 1000}s</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={next}>
+          <Text style={styles(colorScheme, orientation).controlIcon}>⏭</Text>
+        </TouchableOpacity>
+      </View>
+
+      <OptionPicker
+        visible={chapterPickerVisible}
+        title="Chapters"
+        options={chapters.map((chapter, index) => ({
+          value: String(index),
+          label: `${formatTime(chapter.startMillis)}  ${chapter.title}`,
+        }))}
+        selected={chapterIndex >= 0 ? String(chapterIndex) : undefined}
+        onSelect={(value) => seekTo(chapters[Number(value)].startMillis)}
+        onClose={() => setChapterPickerVisible(false)}
+      />
+      <BookmarksSheet
+        visible={bookmarksVisible}
+        track={currentTrack}
+        positionMillis={positionMillis}
+        onSeek={seekTo}
+        onClose={() => setBookmarksVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') => {
+  const { width, height } = Dimensions.get('window');
+  const artworkSize = orientation === 'portrait' ? width * 0.65 : height * 0.45;
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      paddingHorizontal: orientation === 'portrait' ? 24 : 48,
+      paddingTop: orientation === 'portrait' ? 50 : 20,
+    },
+    dismissButton: {
+      alignSelf: 'flex-start',
+      paddingHorizontal: 8,
+      marginBottom: 12,
+    },
+    dismissText: {
+      fontSize: 32,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+    },
+    artwork: {
+      width: artworkSize,
+      height: artworkSize,
+      borderRadius: 20,
+      backgroundColor: scheme === 'dark' ? '#000000' : '#d1d5db',
+      marginBottom: 24,
+    },
+    lyrics: {
+      width: '100%',
+      height: artworkSize,
+      justifyContent: 'center',
+      marginBottom: 24,
+    },
+    details: {
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 24,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Bold',
+      textAlign: 'center',
+    },
+    subtitle: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      fontFamily: 'Poppins-Regular',
+    },
+    ratingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginTop: 8,
+    },
+    lyricsToggle: {
+      fontSize: 15,
+      color: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    spokenWordRow: {
+      width: '100%',
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 16,
+      marginBottom: 12,
+    },
+    chapterButton: {
+      flexShrink: 1,
+      paddingVertical: 6,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+    },
+    chapterText: {
+      fontSize: 15,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    slider: {
+      width: '100%',
+      height: 40,
+    },
+    timeRow: {
+      width: '100%',
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    timeText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      fontFamily: 'Poppins-Medium',
+    },
+    transportRow: {
+      width: '100%',
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+      alignItems: 'center',
+    },
+    playButton: {
+      padding: 16,
+      borderRadius: 50,
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    controlIcon: {
+      fontSize: 32,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+    },
+    skipText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      textAlign: 'center',
+      marginTop: 40,
+      fontSize: 16,
+      fontFamily: 'Poppins-Regular',
+    },
+    closeButton: {
+      backgroundColor: scheme === 'dark' ? '#000000' : '#d1d5db',
+      paddingVertical: 12,
+      paddingHorizontal: 24,
+      borderRadius: 12,
+      marginTop: 20,
+      width: '100%',
+      alignItems: 'center',
+    },
+    closeButtonText: {
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontSize: 16,
+      fontFamily: 'Poppins-SemiBold',
+      fontWeight: '600',
+    },
+  });
+};
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -10,45 +10,58 @@ import {
   Modal,
   Dimensions,
   useColorScheme,
+  Alert,
+  ColorSchemeName,
 } from 'react-native';
-import { Audio } from 'expo-av';
-import * as MediaLibrary from 'expo-media-library';
-import { useNavigation } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Notifications from 'expo-notifications';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import { usePlayer } from '../context/PlayerContext';
+import PlaybackModes from '../components/PlaybackModes';
+import DraggableList, { DragHandleProps } from '../components/DraggableList';
+import SelectionBar, { toggleId } from '../components/SelectionBar';
+import UndoSnackbar from '../components/UndoSnackbar';
+import OptionPicker, { Option } from '../components/OptionPicker';
+import { FavouriteButton, StarRating } from '../components/RatingControls';
+import LyricsPanel from '../components/LyricsPanel';
+import { useLibrary } from '../context/LibraryContext';
+import { useRatings } from '../context/RatingsContext';
+import * as playlistStorage from '../services/playlists';
+import { describeEntry, exportPlaylist, importPlaylist, PlaylistFileFormat } from '../services/playlistFiles';
+import { buildSearchIndex, searchPlaylists, searchTracks } from '../services/search';
+import { describeCount } from '../services/browse';
+import { getTrackStats } from '../services/playHistory';
+import { applyRatings, filterByRating, likedTracks, LIKED_SONGS, RATING_FILTERS, RatingFilter } from '../services/ratings';
+import { describeRules, SMART_SORTS, sortTracks } from '../services/smartPlaylists';
+import { Playlist, PlaylistItem, Ratings, RootStackParamList, SmartSort, TrackStats } from '../types';
 
 const { width, height } = Dimensions.get('window');
 
-interface PlaylistItem {
-  id: string;
-  uri: string;
-  filename: string;
-  title?: string;
-  duration?: number;
-  artist?: string;
-  artwork?: string;
-  album?: string;
-}
+const getOrientation = (): 'portrait' | 'landscape' => (width > height ? 'landscape' : 'portrait');
 
-interface Playlist {
-  id: string;
-  title: string;
-  tracks: PlaylistItem[];
-}
+const PLAYLIST_ITEM_HEIGHT = 65;
+
+type SongSort = SmartSort | 'default';
+
+// Default keeps the library order, or the best matches first while searching.
+const SONG_SORT_OPTIONS: Option<SongSort>[] = [
+  { value: 'default', label: 'Default' },
+  ...(Object.keys(SMART_SORTS) as SmartSort[]).map((sort) => ({ value: sort, label: SMART_SORTS[sort].label })),
+];
 
-const getOrientation = () => (width > height ? 'landscape' : 'portrait');
+// Playlist edits are reverted against the current list; unliking from Liked Songs puts the old ratings back instead.
+interface UndoAction {
+  id: number;
+  message: string;
+  revert?: (playlists: Playlist[]) => Playlist[];
+  ratings?: Ratings;
+}
 
 export default function PlaylistScreen() {
   const colorScheme = useColorScheme();
-  const [musicFiles, setMusicFiles] = useState<PlaylistItem[]>([]);
+  const { tracks: musicFiles, tracksById, isScanning } = useLibrary();
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
-  const [filteredMusicFiles, setFilteredMusicFiles] = useState<PlaylistItem[]>([]);
-  const [currentSound, setCurrentSound] = useState<Audio.Sound | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTrack, setCurrentTrack] = useState<PlaylistItem | null>(null);
-  const [currentIndex, setCurrentIndex] = useState<number>(-1);
   const [searchText, setSearchText] = useState('');
   const [songModalVisible, setSongModalVisible] = useState(false);
+  const [showLyrics, setShowLyrics] = useState(false);
   const [playlistModalVisible, setPlaylistModalVisible] = useState(false);
   const [selectedTrack, setSelectedTrack] = useState<PlaylistItem | null>(null);
   const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
@@ -56,9 +69,20 @@ export default function PlaylistScreen() {
   const [createModalVisible, setCreateModalVisible] = useState(false);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [newPlaylistTitle, setNewPlaylistTitle] = useState('');
+  const [selectedSongIds, setSelectedSongIds] = useState<Set<string>>(new Set());
+  const [selectedEntryIds, setSelectedEntryIds] = useState<Set<string>>(new Set());
+  const [pickerModalVisible, setPickerModalVisible] = useState(false);
+  const [undo, setUndo] = useState<UndoAction | null>(null);
+  const [trackStats, setTrackStats] = useState<Map<string, TrackStats>>(new Map());
+  const [songSort, setSongSort] = useState<SongSort>('default');
+  const [ratingFilter, setRatingFilter] = useState<RatingFilter>('all');
+  const [songOptionsPicker, setSongOptionsPicker] = useState<'sort' | 'filter' | null>(null);
   const [orientation, setOrientation] = useState(getOrientation());
   const navigation = useNavigation();
-  const notificationIdRef = useRef<string | null>(null);
+  const openPlaylistId = useRoute<RouteProp<RootStackParamList, 'PlaylistScreen'>>().params?.playlistId;
+  const { currentTrack, source, isPlaying, play, togglePlayPause, next, previous, stop, playNext, addToQueue } =
+    usePlayer();
+  const { ratings, ratingOf, setFavourite, restoreRatings } = useRatings();
 
   useEffect(() => {
     const subscription = Dimensions.addEventListener('change', () => {
@@ -67,87 +91,58 @@ export default function PlaylistScreen() {
     return () => subscription?.remove();
   }, []);
 
-  useEffect(() => {
-    Notifications.setNotificationHandler({
-      handleNotification: async () => ({
-        shouldShowAlert: true,
-        shouldPlaySound: false,
-        shouldSetBadge: false,
-      }),
-    });
-
-    Notifications.setNotificationCategoryAsync('musicControls', [
-      { identifier: 'play-pause', buttonTitle: isPlaying ? 'Pause' : 'Play' },
-      { identifier: 'next', buttonTitle: 'Next' },
-      { identifier: 'previous', buttonTitle: 'Previous' },
-    ]);
-
-    const subscription = Notifications.addNotificationResponseReceivedListener(handleNotificationResponse);
-    return () => subscription.remove();
-  }, [isPlaying]);
+  // Smart playlists are edited on their own screen and depend on play counts, so reload whenever we come back.
+  useFocusEffect(
+    useCallback(() => {
+      loadPlaylists();
+      getTrackStats()
+        .then(setTrackStats)
+        .catch((error) => console.error('Failed to load play counts', error));
+    }, [])
+  );
 
   useEffect(() => {
-    const initialize = async () => {
-      const allAudio = await fetchAllAudioFiles();
-      setMusicFiles(allAudio);
-      setFilteredMusicFiles(allAudio);
-      await loadPlaylists();
-    };
-
-    initialize();
-
-    return () => {
-      if (currentSound) currentSound.unloadAsync();
-      if (notificationIdRef.current) Notifications.dismissNotificationAsync(notificationIdRef.current);
-    };
-  }, []);
+    const playlist = playlists.find((candidate) => candidate.id === openPlaylistId);
+    if (!playlist) return;
+    openPlaylist(playlist);
+    navigation.setParams({ playlistId: undefined });
+  }, [openPlaylistId, playlists]);
 
-  const fetchAllAudioFiles = async () => {
-    const { status } = await MediaLibrary.requestPermissionsAsync();
-    if (status !== 'granted') return [];
-
-    let allAudioFiles: MediaLibrary.Asset[] = [];
-    let media = await MediaLibrary.getAssetsAsync({ mediaType: 'audio', first: 100 });
-
-    while (media.hasNextPage) {
-      allAudioFiles = [...allAudioFiles, ...media.assets];
-      media = await MediaLibrary.getAssetsAsync({ mediaType: 'audio', first: 100, after: media.endCursor });
-    }
-    allAudioFiles = [...allAudioFiles, ...media.assets];
-
-    return Promise.all(
-      allAudioFiles.map(async (item) => {
-        const metadata = await MediaLibrary.getAssetInfoAsync(item.id);
-        return {
-          id: item.id,
-          uri: item.uri,
-          filename: item.filename,
-          title: metadata.title || item.filename,
-          duration: item.duration || 0,
-          artist: metadata.artist,
-          artwork: metadata.artwork,
-          album: metadata.album,
-        };
-      })
-    );
-  };
+  const stats = useMemo(() => applyRatings(trackStats, ratings), [trackStats, ratings]);
+  const likedSongs = useMemo(() => likedTracks(ratings, musicFiles), [ratings, musicFiles]);
+  // Liked Songs goes into the index first, so it heads the playlists view unless a search leaves it out.
+  const searchIndex = useMemo(() => buildSearchIndex(musicFiles, [LIKED_SONGS, ...playlists]), [musicFiles, playlists]);
+  const filteredMusicFiles = useMemo(() => {
+    const matching = filterByRating(searchTracks(searchIndex, searchText), ratings, ratingFilter);
+    return songSort === 'default' ? matching : sortTracks(matching, songSort, stats);
+  }, [searchIndex, searchText, ratings, ratingFilter, songSort, stats]);
+  const filteredPlaylists = useMemo(() => searchPlaylists(searchIndex, searchText), [searchIndex, searchText]);
+  const tracksOf = (playlist: Playlist) =>
+    playlist.id === LIKED_SONGS.id
+      ? likedSongs
+      : playlistStorage.resolvePlaylistTracks(playlist, musicFiles, tracksById, stats);
+  const selectedTracks = useMemo(
+    () => (selectedPlaylist ? tracksOf(selectedPlaylist) : []),
+    [selectedPlaylist, likedSongs, musicFiles, tracksById, stats]
+  );
+  const trackCounts = useMemo(
+    () => new Map([LIKED_SONGS, ...playlists].map((playlist) => [playlist.id, tracksOf(playlist).length])),
+    [playlists, likedSongs, musicFiles, tracksById, stats]
+  );
+  // Smart playlists are filled by their rules, so songs can't be added, removed or reordered by hand.
+  const editablePlaylists = playlists.filter((playlist) => !playlist.rules);
+  const isSmartPlaylist = !!selectedPlaylist?.rules;
+  // Liked Songs follows the hearts, newest first: removing a song unlikes it, and there is no order to change.
+  const isLikedSongs = selectedPlaylist?.id === LIKED_SONGS.id;
 
   const loadPlaylists = async () => {
-    try {
-      const savedPlaylists = await AsyncStorage.getItem('playlists');
-      if (savedPlaylists) setPlaylists(JSON.parse(savedPlaylists));
-    } catch (error) {
-      console.error('Failed to load playlists', error);
-    }
+    setPlaylists(await playlistStorage.loadPlaylists());
   };
 
   const savePlaylists = async (updatedPlaylists: Playlist[]) => {
-    try {
-      await AsyncStorage.setItem('playlists', JSON.stringify(updatedPlaylists));
-      setPlaylists(updatedPlaylists);
-    } catch (error) {
-      console.error('Failed to save playlists', error);
-    }
+    if (!(await playlistStorage.savePlaylists(updatedPlaylists))) return;
+    setPlaylists(updatedPlaylists);
+    setSelectedPlaylist((prev) => (prev && updatedPlaylists.find((playlist) => playlist.id === prev.id)) || prev);
   };
 
   const createPlaylist = () => {
@@ -155,7 +150,7 @@ export default function PlaylistScreen() {
       const newPlaylist: Playlist = {
         id: Date.now().toString(),
         title: newPlaylistTitle.trim(),
-        tracks: [],
+        trackIds: [],
       };
       savePlaylists([...playlists, newPlaylist]);
       setNewPlaylistTitle('');
@@ -163,34 +158,87 @@ export default function PlaylistScreen() {
     }
   };
 
-  const deletePlaylist = (playlistId: string) => {
-    const updatedPlaylists = playlists.filter((playlist) => playlist.id !== playlistId);
-    savePlaylists(updatedPlaylists);
-    if (selectedPlaylist?.id === playlistId) {
-      setSelectedPlaylist(null);
-      setPlaylistModalVisible(false);
-    }
+  const updatePlaylist = (playlistId: string, update: (playlist: Playlist) => Playlist) =>
+    savePlaylists(playlists.map((playlist) => (playlist.id === playlistId ? update(playlist) : playlist)));
+
+  const undoLastEdit = () => {
+    if (!undo) return;
+    if (undo.revert) savePlaylists(undo.revert(playlists));
+    if (undo.ratings) restoreRatings(undo.ratings);
+    setUndo(null);
   };
 
-  const addToPlaylist = (track: PlaylistItem, playlistId: string) => {
-    const updatedPlaylists = playlists.map((playlist) => {
-      if (playlist.id === playlistId && !playlist.tracks.some((t) => t.id === track.id)) {
-        return { ...playlist, tracks: [...playlist.tracks, track] };
-      }
-      return playlist;
+  const deletePlaylist = (playlistId: string) => {
+    const index = playlists.findIndex((playlist) => playlist.id === playlistId);
+    if (index < 0) return;
+    const deleted = playlists[index];
+    savePlaylists(playlists.filter((playlist) => playlist.id !== playlistId));
+    if (selectedPlaylist?.id === playlistId) closePlaylistModal();
+    setUndo({
+      id: Date.now(),
+      message: `Deleted ${deleted.title}`,
+      revert: (current) =>
+        current.some((playlist) => playlist.id === deleted.id)
+          ? current
+          : [...current.slice(0, index), deleted, ...current.slice(index)],
     });
-    savePlaylists(updatedPlaylists);
   };
 
-  const removeFromPlaylist = (trackId: string, playlistId: string) => {
-    const updatedPlaylists = playlists.map((playlist) => {
-      if (playlist.id === playlistId) {
-        return { ...playlist, tracks: playlist.tracks.filter((t) => t.id !== trackId) };
-      }
-      return playlist;
+  const addToPlaylist = (tracks: PlaylistItem[], playlistId: string) =>
+    updatePlaylist(playlistId, (playlist) => playlistStorage.addTracks(playlist, tracks.map((track) => track.id)));
+
+  const removeFromPlaylist = (trackIds: string[], playlistId: string) => {
+    if (playlistId === LIKED_SONGS.id) {
+      const previousRatings: Ratings = Object.fromEntries(
+        trackIds.flatMap((id) => (ratings[id] ? [[id, ratings[id]]] : []))
+      );
+      setFavourite(trackIds, false);
+      setUndo({
+        id: Date.now(),
+        message: `Removed ${describeCount(trackIds.length, 'song')} from ${LIKED_SONGS.title}`,
+        ratings: previousRatings,
+      });
+      return;
+    }
+    const previous = playlists.find((playlist) => playlist.id === playlistId);
+    if (!previous) return;
+    updatePlaylist(playlistId, (playlist) => playlistStorage.removeTracks(playlist, trackIds));
+    setUndo({
+      id: Date.now(),
+      message: `Removed ${describeCount(trackIds.length, 'song')} from ${previous.title}`,
+      revert: (current) =>
+        current.map((playlist) => (playlist.id === playlistId ? { ...playlist, trackIds: previous.trackIds } : playlist)),
     });
-    savePlaylists(updatedPlaylists);
-    if (currentTrack?.id === trackId) stopSound();
+    // The same song may be playing from the library or another playlist, which this edit doesn't affect.
+    const playingFromPlaylist = source?.type === 'playlist' && source.playlistId === playlistId;
+    if (playingFromPlaylist && currentTrack && trackIds.includes(currentTrack.id)) stop();
+  };
+
+  const moveInPlaylist = (from: number, to: number) => {
+    if (!selectedPlaylist) return;
+    updatePlaylist(selectedPlaylist.id, (playlist) => playlistStorage.moveTrack(playlist, tracksById, from, to));
+  };
+
+  const openPlaylist = (playlist: Playlist) => {
+    setSelectedPlaylist(playlist);
+    setSelectedEntryIds(new Set());
+    setPlaylistModalVisible(true);
+  };
+
+  const closePlaylistModal = () => {
+    setPlaylistModalVisible(false);
+    setSelectedEntryIds(new Set());
+  };
+
+  // Selections keep the order of the list they were made in, not the order they were tapped.
+  const selectedSongs = musicFiles.filter((track) => selectedSongIds.has(track.id));
+  const selectedEntries = selectedTracks.filter((track) => selectedEntryIds.has(track.id));
+
+  const addSelectedToPlaylist = (playlistId: string) => {
+    if (playlistId === LIKED_SONGS.id) setFavourite([...selectedSongIds], true);
+    else addToPlaylist(selectedSongs, playlistId);
+    setSelectedSongIds(new Set());
+    setPickerModalVisible(false);
   };
 
   const editPlaylistTitle = (playlistId: string, newTitle: string) => {
@@ -204,112 +252,75 @@ export default function PlaylistScreen() {
     setEditModalVisible(false);
   };
 
-  const playSound = async (track: PlaylistItem, index: number, playlist: PlaylistItem[]) => {
+  const exportPlaylistAs = async (playlist: Playlist, format: PlaylistFileFormat) => {
     try {
-      if (currentSound) await currentSound.unloadAsync();
-
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        staysActiveInBackground: true,
-        playsInSilentModeIOS: true,
-        shouldDuckAndroid: true,
-        playThroughEarpieceAndroid: false,
-      });
-
-      const { sound } = await Audio.Sound.createAsync({ uri: track.uri }, { shouldPlay: true });
-      setCurrentSound(sound);
-      setCurrentTrack(track);
-      setCurrentIndex(index);
-      setIsPlaying(true);
-
-      sound.setOnPlaybackStatusUpdate((status) => {
-        if (status.didJustFinish) {
-          if (index < playlist.length - 1) playNext(playlist);
-          else stopSound();
-        }
-      });
-
-      await updateNotification(track);
-      await sound.playAsync();
+      await exportPlaylist(playlist, tracksOf(playlist), format);
     } catch (error) {
-      console.error('Failed to play sound', error);
+      console.error('Failed to export playlist', error);
+      Alert.alert('Export failed', `${playlist.title} could not be exported.`);
     }
   };
 
-  const stopSound = async () => {
-    if (currentSound) {
-      await currentSound.stopAsync();
-      await currentSound.unloadAsync();
-      setCurrentSound(null);
-      setIsPlaying(false);
-      setCurrentTrack(null);
-      setCurrentIndex(-1);
-      if (notificationIdRef.current) {
-        await Notifications.dismissNotificationAsync(notificationIdRef.current);
-        notificationIdRef.current = null;
-      }
-    }
-  };
-
-  const playNext = (playlist: PlaylistItem[]) => {
-    if (currentIndex < playlist.length - 1) playSound(playlist[currentIndex + 1], currentIndex + 1, playlist);
-  };
-
-  const playPrevious = (playlist: PlaylistItem[]) => {
-    if (currentIndex > 0) playSound(playlist[currentIndex - 1], currentIndex - 1, playlist);
-  };
-
-  const togglePlayPause = async () => {
-    if (currentSound) {
-      if (isPlaying) await currentSound.pauseAsync();
-      else await currentSound.playAsync();
-      setIsPlaying(!isPlaying);
-      if (currentTrack) await updateNotification(currentTrack);
-    }
-  };
-
-  const updateNotification = async (track: PlaylistItem) => {
-    if (notificationIdRef.current) await Notifications.dismissNotificationAsync(notificationIdRef.current);
-
-    const notificationId = await Notifications.scheduleNotificationAsync({
-      content: {
-        title: track.title,
-        body: `Artist: ${track.artist || 'Unknown'} | ${isPlaying ? 'Playing' : 'Paused'}`,
-        sound: true,
-        data: { trackId: track.id },
-        categoryIdentifier: 'musicControls',
-      },
-      trigger: null,
-    });
-    notificationIdRef.current = notificationId;
+  const showExportOptions = (playlist: Playlist) => {
+    Alert.alert(`Export ${playlist.title}`, undefined, [
+      { text: 'M3U8', onPress: () => exportPlaylistAs(playlist, 'm3u8') },
+      { text: 'PLS', onPress: () => exportPlaylistAs(playlist, 'pls') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
   };
 
-  const handleNotificationResponse = (response: Notifications.NotificationResponse) => {
-    const action = response.actionIdentifier;
-    const currentPlaylist = selectedPlaylist?.tracks || [];
-
-    if (action === 'play-pause') {
-      togglePlayPause();
-    } else if (action === 'next') {
-      playNext(currentPlaylist);
-    } else if (action === 'previous') {
-      playPrevious(currentPlaylist);
+  const importPlaylistFile = async () => {
+    try {
+      const imported = await importPlaylist(musicFiles);
+      if (!imported) return;
+      const { playlist, unmatched } = imported;
+      await savePlaylists([...playlists, playlist]);
+      const missing = unmatched.slice(0, 10).map(describeEntry);
+      if (unmatched.length > missing.length) missing.push(`…and ${unmatched.length - missing.length} more`);
+      Alert.alert(
+        `Imported ${playlist.title}`,
+        unmatched.length > 0
+          ? `${playlist.trackIds.length} tracks added. These entries weren't found in your library:\n\n${missing.join('\n')}`
+          : `${playlist.trackIds.length} tracks added.`
+      );
+    } catch (error) {
+      console.error('Failed to import playlist', error);
+      Alert.alert('Import failed', 'That file could not be read as an M3U or PLS playlist.');
     }
   };
 
-  const handleSearch = (text: string) => {
-    setSearchText(text);
-    setFilteredMusicFiles(
-      text
-        ? musicFiles.filter((file) => file.title?.toLowerCase().includes(text.toLowerCase()))
-        : musicFiles
-    );
-  };
-
-  const renderPlaylistItem = ({ item, index }: { item: PlaylistItem; index: number }) => (
-    <View style={styles(colorScheme, orientation).playlistTrackItem}>
+  const renderPlaylistItem = ({
+    item,
+    index,
+    isDragging,
+    dragHandleProps,
+  }: {
+    item: PlaylistItem;
+    index: number;
+    isDragging: boolean;
+    dragHandleProps: DragHandleProps;
+  }) => (
+    <View
+      style={[
+        styles(colorScheme, orientation).playlistTrackItem,
+        selectedEntryIds.has(item.id) && styles(colorScheme, orientation).selectedItem,
+        isDragging && styles(colorScheme, orientation).draggingItem,
+      ]}
+    >
+      {isSmartPlaylist || isLikedSongs ? (
+        <View style={styles(colorScheme, orientation).dragHandle} />
+      ) : (
+        <View {...dragHandleProps} style={styles(colorScheme, orientation).dragHandle}>
+          <Text style={styles(colorScheme, orientation).dragHandleText}>≡</Text>
+        </View>
+      )}
       <TouchableOpacity
-        onPress={() => selectedPlaylist && playSound(item, index, selectedPlaylist.tracks)}
+        onPress={() => {
+          if (selectedEntryIds.size > 0) setSelectedEntryIds(toggleId(selectedEntryIds, item.id));
+          else if (isLikedSongs) play(selectedTracks, index, { type: 'liked' });
+          else if (selectedPlaylist) play(selectedTracks, index, { type: 'playlist', playlistId: selectedPlaylist.id });
+        }}
+        onLongPress={() => setSelectedEntryIds(toggleId(selectedEntryIds, item.id))}
         style={styles(colorScheme, orientation).playlistTrackContent}
       >
         <Image
@@ -318,29 +329,40 @@ export default function PlaylistScreen() {
         />
         <View style={styles(colorScheme, orientation).trackInfo}>
           <Text numberOfLines={1} style={styles(colorScheme, orientation).trackTitle}>
-            {item.title}
+            {item.title || item.filename}
           </Text>
-          <Text style={styles(colorScheme, orientation).trackArtist}>
+          <Text numberOfLines={1} style={styles(colorScheme, orientation).trackArtist}>
             {item.artist || 'Unknown'}
           </Text>
         </View>
       </TouchableOpacity>
-      <TouchableOpacity
-        onPress={() => selectedPlaylist && removeFromPlaylist(item.id, selectedPlaylist.id)}
-        style={styles(colorScheme, orientation).actionButton}
-      >
-        <Text style={styles(colorScheme, orientation).actionButtonText}>✖</Text>
-      </TouchableOpacity>
+      {!isSmartPlaylist && (
+        <TouchableOpacity
+          onPress={() => selectedPlaylist && removeFromPlaylist([item.id], selectedPlaylist.id)}
+          style={styles(colorScheme, orientation).actionButton}
+        >
+          <Text style={styles(colorScheme, orientation).actionButtonText}>✖</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
   const renderSongItem = ({ item }: { item: PlaylistItem }) => (
     <TouchableOpacity
       onPress={() => {
+        if (selectedSongIds.size > 0) {
+          setSelectedSongIds(toggleId(selectedSongIds, item.id));
+          return;
+        }
         setSelectedTrack(item);
+        setShowLyrics(false);
         setSongModalVisible(true);
       }}
-      style={styles(colorScheme, orientation).songItem}
+      onLongPress={() => setSelectedSongIds(toggleId(selectedSongIds, item.id))}
+      style={[
+        styles(colorScheme, orientation).songItem,
+        selectedSongIds.has(item.id) && styles(colorScheme, orientation).selectedItem,
+      ]}
     >
       <Image
         source={{ uri: item.artwork || 'https://via.placeholder.com/50' }}
@@ -348,89 +370,175 @@ export default function PlaylistScreen() {
       />
       <View style={styles(colorScheme, orientation).songInfo}>
         <Text numberOfLines={1} style={styles(colorScheme, orientation).songTitle}>
-          {item.title}
+          {item.title || item.filename}
         </Text>
         <Text style={styles(colorScheme, orientation).songArtist}>
           {item.artist || 'Unknown'}
+          {ratingOf(item.id) > 0 && ` · ${'★'.repeat(ratingOf(item.id))}`}
         </Text>
       </View>
+      <FavouriteButton trackId={item.id} />
     </TouchableOpacity>
   );
 
-  const renderPlaylist = ({ item }: { item: Playlist }) => (
+  const renderLikedSongs = () => (
     <View style={styles(colorScheme, orientation).playlistCard}>
-      <TouchableOpacity
-        onPress={() => {
-          setSelectedPlaylist(item);
-          setPlaylistModalVisible(true);
-        }}
-        style={styles(colorScheme, orientation).playlistContent}
-      >
+      <TouchableOpacity onPress={() => openPlaylist(LIKED_SONGS)} style={styles(colorScheme, orientation).playlistContent}>
         <Text numberOfLines={1} style={styles(colorScheme, orientation).playlistTitle}>
-          {item.title}
+          ♥ {LIKED_SONGS.title}
         </Text>
-        <Text style={styles(colorScheme, orientation).playlistSubtitle}>
-          {item.tracks.length} tracks
+        <Text numberOfLines={1} style={styles(colorScheme, orientation).playlistSubtitle}>
+          {likedSongs.length} tracks · newest first
         </Text>
       </TouchableOpacity>
       <View style={styles(colorScheme, orientation).playlistActions}>
-        <TouchableOpacity
-          onPress={() => {
-            setSelectedPlaylist(item);
-            setEditModalVisible(true);
-          }}
-          style={styles(colorScheme, orientation).actionButton}
-        >
-          <Text style={styles(colorScheme, orientation).actionButtonText}>✎</Text>
+        <TouchableOpacity onPress={() => showExportOptions(LIKED_SONGS)} style={styles(colorScheme, orientation).actionButton}>
+          <Text style={styles(colorScheme, orientation).actionButtonText}>⇪</Text>
         </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderPlaylist = ({ item }: { item: Playlist }) => {
+    if (item.id === LIKED_SONGS.id) return renderLikedSongs();
+    return (
+      <View style={styles(colorScheme, orientation).playlistCard}>
         <TouchableOpacity
-          onPress={() => deletePlaylist(item.id)}
-          style={styles(colorScheme, orientation).actionButton}
+          onPress={() => openPlaylist(item)}
+          style={styles(colorScheme, orientation).playlistContent}
         >
-          <Text style={styles(colorScheme, orientation).actionButtonText}>🗑️</Text>
+          <Text numberOfLines={1} style={styles(colorScheme, orientation).playlistTitle}>
+            {item.rules ? `⚡ ${item.title}` : item.title}
+          </Text>
+          <Text numberOfLines={1} style={styles(colorScheme, orientation).playlistSubtitle}>
+            {trackCounts.get(item.id) ?? 0} tracks{item.rules ? ` · ${describeRules(item.rules)}` : ''}
+          </Text>
         </TouchableOpacity>
+        <View style={styles(colorScheme, orientation).playlistActions}>
+          <TouchableOpacity
+            onPress={() => {
+              if (item.rules) {
+                navigation.navigate('SmartPlaylistScreen', { playlistId: item.id });
+                return;
+              }
+              setSelectedPlaylist(item);
+              setEditModalVisible(true);
+            }}
+            style={styles(colorScheme, orientation).actionButton}
+          >
+            <Text style={styles(colorScheme, orientation).actionButtonText}>✎</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => showExportOptions(item)}
+            style={styles(colorScheme, orientation).actionButton}
+          >
+            <Text style={styles(colorScheme, orientation).actionButtonText}>⇪</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => deletePlaylist(item.id)}
+            style={styles(colorScheme, orientation).actionButton}
+          >
+            <Text style={styles(colorScheme, orientation).actionButtonText}>🗑️</Text>
+          </TouchableOpacity>
+        </View>
       </View>
-    </View>
+    );
+  };
+
+  // Modals draw above the screen, so the snackbar is shown inside the playlist modal while it is open.
+  const undoSnackbar = undo && (
+    <UndoSnackbar key={undo.id} message={undo.message} onUndo={undoLastEdit} onDismiss={() => setUndo(null)} />
   );
 
   return (
     <View style={styles(colorScheme, orientation).container}>
       <View style={styles(colorScheme, orientation).header}>
         <Text style={styles(colorScheme, orientation).title}>🎵 My Playlists 🎶</Text>
+        <TouchableOpacity onPress={importPlaylistFile} style={styles(colorScheme, orientation).importButton}>
+          <Text style={styles(colorScheme, orientation).importButtonText}>Import M3U / PLS</Text>
+        </TouchableOpacity>
       </View>
 
       <TextInput
         style={styles(colorScheme, orientation).searchInput}
-        placeholder="Search Songs..."
+        placeholder={showPlaylists ? 'Search Playlists...' : 'Search Songs...'}
         placeholderTextColor={colorScheme === 'dark' ? '#aaaaaa' : '#666666'}
         value={searchText}
-        onChangeText={handleSearch}
+        onChangeText={setSearchText}
       />
 
-      <View style={styles(colorScheme, orientation).buttonContainer}>
-        <TouchableOpacity
-          onPress={() => setShowPlaylists(!showPlaylists)}
-          style={styles(colorScheme, orientation).toggleButton}
-        >
-          <Text style={styles(colorScheme, orientation).toggleButtonText}>
-            {showPlaylists ? 'Show Songs' : 'Show Playlists'}
-          </Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          onPress={() => setCreateModalVisible(true)}
-          style={styles(colorScheme, orientation).createButton}
-        >
-          <Text style={styles(colorScheme, orientation).toggleButtonText}>+ New Playlist</Text>
-        </TouchableOpacity>
-      </View>
+      {!showPlaylists && selectedSongIds.size > 0 ? (
+        <SelectionBar
+          count={selectedSongIds.size}
+          onCancel={() => setSelectedSongIds(new Set())}
+          onSelectAll={() => setSelectedSongIds(new Set(filteredMusicFiles.map((track) => track.id)))}
+          actions={[
+            { label: 'Add to Playlist', onPress: () => setPickerModalVisible(true) },
+            {
+              label: 'Play Next',
+              onPress: () => {
+                playNext(selectedSongs);
+                setSelectedSongIds(new Set());
+              },
+            },
+            {
+              label: 'Add to Queue',
+              onPress: () => {
+                addToQueue(selectedSongs);
+                setSelectedSongIds(new Set());
+              },
+            },
+          ]}
+        />
+      ) : (
+        <View style={styles(colorScheme, orientation).buttonContainer}>
+          <TouchableOpacity
+            onPress={() => {
+              setShowPlaylists(!showPlaylists);
+              setSelectedSongIds(new Set());
+            }}
+            style={styles(colorScheme, orientation).toggleButton}
+          >
+            <Text style={styles(colorScheme, orientation).toggleButtonText}>
+              {showPlaylists ? 'Show Songs' : 'Show Playlists'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setCreateModalVisible(true)}
+            style={styles(colorScheme, orientation).createButton}
+          >
+            <Text style={styles(colorScheme, orientation).toggleButtonText}>+ New Playlist</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
-      <FlatList
-        data={showPlaylists ? playlists : filteredMusicFiles}
+      {!showPlaylists && (
+        <View style={styles(colorScheme, orientation).filterRow}>
+          <TouchableOpacity onPress={() => setSongOptionsPicker('sort')} style={styles(colorScheme, orientation).filterChip}>
+            <Text numberOfLines={1} style={styles(colorScheme, orientation).filterChipText}>
+              Sort: {SONG_SORT_OPTIONS.find((option) => option.value === songSort)?.label} ▾
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setSongOptionsPicker('filter')} style={styles(colorScheme, orientation).filterChip}>
+            <Text numberOfLines={1} style={styles(colorScheme, orientation).filterChipText}>
+              Show: {RATING_FILTERS[ratingFilter].label} ▾
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <FlatList<Playlist | PlaylistItem>
+        data={showPlaylists ? filteredPlaylists : filteredMusicFiles}
         keyExtractor={(item) => item.id}
-        renderItem={showPlaylists ? renderPlaylist : renderSongItem}
+        renderItem={({ item }) => ('filename' in item ? renderSongItem({ item }) : renderPlaylist({ item }))}
+        extraData={[selectedSongIds, ratings]}
         ListEmptyComponent={
           <Text style={styles(colorScheme, orientation).emptyText}>
-            {showPlaylists ? 'No playlists created yet' : 'No songs found'}
+            {showPlaylists
+              ? playlists.length > 0
+                ? 'No playlists found'
+                : 'No playlists created yet'
+              : isScanning ? 'Scanning library...' : 'No songs found'}
           </Text>
         }
         contentContainerStyle={{ paddingBottom: orientation === 'portrait' ? 120 : 80 }}
@@ -438,19 +546,23 @@ export default function PlaylistScreen() {
 
       {currentTrack && (
         <View style={styles(colorScheme, orientation).nowPlaying}>
-          <Text numberOfLines={1} style={styles(colorScheme, orientation).nowPlayingText}>
-            Now Playing: {currentTrack.title}
-          </Text>
+          <TouchableOpacity onPress={() => navigation.navigate('NowPlayingScreen')}>
+            <Text numberOfLines={1} style={styles(colorScheme, orientation).nowPlayingText}>
+              Now Playing: {currentTrack.title || currentTrack.filename}
+            </Text>
+          </TouchableOpacity>
+          <PlaybackModes />
           <View style={styles(colorScheme, orientation).controls}>
-            <TouchableOpacity onPress={() => playPrevious(selectedPlaylist?.tracks || [])}>
+            <TouchableOpacity onPress={previous}>
               <Text style={styles(colorScheme, orientation).controlIcon}>⏮</Text>
             </TouchableOpacity>
             <TouchableOpacity onPress={togglePlayPause}>
               <Text style={styles(colorScheme, orientation).controlIcon}>{isPlaying ? '❚❚' : '▶'}</Text>
             </TouchableOpacity>
-            <TouchableOpacity onPress={() => playNext(selectedPlaylist?.tracks || [])}>
+            <TouchableOpacity onPress={next}>
               <Text style={styles(colorScheme, orientation).controlIcon}>⏭</Text>
             </TouchableOpacity>
+            <FavouriteButton trackId={currentTrack.id} size={24} />
           </View>
         </View>
       )}
@@ -459,21 +571,66 @@ export default function PlaylistScreen() {
       <Modal visible={songModalVisible} transparent animationType="slide" onRequestClose={() => setSongModalVisible(false)}>
         <View style={styles(colorScheme, orientation).modalOverlay}>
           <View style={styles(colorScheme, orientation).modalCard}>
-            <Text style={styles(colorScheme, orientation).modalTitle}>{selectedTrack?.title}</Text>
+            <Text style={styles(colorScheme, orientation).modalTitle}>
+              {selectedTrack?.title || selectedTrack?.filename}
+            </Text>
             <Text style={styles(colorScheme, orientation).modalSubtitle}>
               Artist: {selectedTrack?.artist || 'Unknown'}
             </Text>
             <Text style={styles(colorScheme, orientation).modalSubtitle}>
               Album: {selectedTrack?.album || 'Unknown'}
             </Text>
-            {selectedTrack?.artwork && (
+            {!!(selectedTrack?.genre || selectedTrack?.year) && (
+              <Text style={styles(colorScheme, orientation).modalSubtitle}>
+                {[selectedTrack.genre, selectedTrack.year].filter(Boolean).join(' · ')}
+              </Text>
+            )}
+            {!showLyrics && selectedTrack?.artwork && (
               <Image source={{ uri: selectedTrack.artwork }} style={styles(colorScheme, orientation).modalArtwork} />
             )}
-            {playlists.map((playlist) => (
+            {showLyrics && selectedTrack && <LyricsPanel track={selectedTrack} />}
+            {selectedTrack && (
+              <View style={styles(colorScheme, orientation).ratingRow}>
+                <FavouriteButton trackId={selectedTrack.id} size={28} />
+                <StarRating trackId={selectedTrack.id} />
+              </View>
+            )}
+            <TouchableOpacity
+              onPress={() => setShowLyrics(!showLyrics)}
+              style={[
+                styles(colorScheme, orientation).actionButtonSecondary,
+                styles(colorScheme, orientation).lyricsButton,
+              ]}
+            >
+              <Text style={styles(colorScheme, orientation).actionButtonText}>
+                {showLyrics ? 'Hide Lyrics' : 'Lyrics'}
+              </Text>
+            </TouchableOpacity>
+            <View style={styles(colorScheme, orientation).modalButtonContainer}>
+              <TouchableOpacity
+                onPress={() => {
+                  if (selectedTrack) playNext([selectedTrack]);
+                  setSongModalVisible(false);
+                }}
+                style={styles(colorScheme, orientation).actionButtonSecondary}
+              >
+                <Text style={styles(colorScheme, orientation).actionButtonText}>Play Next</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => {
+                  if (selectedTrack) addToQueue([selectedTrack]);
+                  setSongModalVisible(false);
+                }}
+                style={styles(colorScheme, orientation).actionButtonSecondary}
+              >
+                <Text style={styles(colorScheme, orientation).actionButtonText}>Add to Queue</Text>
+              </TouchableOpacity>
+            </View>
+            {editablePlaylists.map((playlist) => (
               <TouchableOpacity
                 key={playlist.id}
                 onPress={() => {
-                  if (selectedTrack) addToPlaylist(selectedTrack, playlist.id);
+                  if (selectedTrack) addToPlaylist([selectedTrack], playlist.id);
                   setSongModalVisible(false);
                 }}
                 style={styles(colorScheme, orientation).actionButtonSecondary}
@@ -522,6 +679,15 @@ export default function PlaylistScreen() {
                 <Text style={styles(colorScheme, orientation).actionButtonText}>Cancel</Text>
               </TouchableOpacity>
             </View>
+            <TouchableOpacity
+              onPress={() => {
+                setCreateModalVisible(false);
+                navigation.navigate('SmartPlaylistScreen');
+              }}
+              style={styles(colorScheme, orientation).closeButton}
+            >
+              <Text style={styles(colorScheme, orientation).closeButtonText}>⚡ Smart Playlist from Rules</Text>
+            </TouchableOpacity>
           </View>
         </View>
       </Modal>
@@ -561,31 +727,135 @@ export default function PlaylistScreen() {
         visible={playlistModalVisible}
         transparent
         animationType="slide"
-        onRequestClose={() => setPlaylistModalVisible(false)}
+        onRequestClose={closePlaylistModal}
       >
         <View style={styles(colorScheme, orientation).modalOverlay}>
           <View style={styles(colorScheme, orientation).modalCardLarge}>
             <Text style={styles(colorScheme, orientation).modalTitle}>{selectedPlaylist?.title}</Text>
-            <Text style={styles(colorScheme, orientation).modalSubtitle}>
-              {selectedPlaylist?.tracks.length} tracks
-            </Text>
-            <FlatList
-              data={selectedPlaylist?.tracks}
+            {selectedEntryIds.size > 0 ? (
+              <SelectionBar
+                count={selectedEntryIds.size}
+                onCancel={() => setSelectedEntryIds(new Set())}
+                onSelectAll={() => setSelectedEntryIds(new Set(selectedTracks.map((track) => track.id)))}
+                actions={[
+                  {
+                    label: 'Play Next',
+                    onPress: () => {
+                      playNext(selectedEntries);
+                      setSelectedEntryIds(new Set());
+                    },
+                  },
+                  {
+                    label: 'Add to Queue',
+                    onPress: () => {
+                      addToQueue(selectedEntries);
+                      setSelectedEntryIds(new Set());
+                    },
+                  },
+                  ...(isSmartPlaylist
+                    ? []
+                    : [
+                        {
+                          label: isLikedSongs ? 'Unlike' : 'Remove',
+                          destructive: true,
+                          onPress: () => {
+                            if (selectedPlaylist) removeFromPlaylist([...selectedEntryIds], selectedPlaylist.id);
+                            setSelectedEntryIds(new Set());
+                          },
+                        },
+                      ]),
+                ]}
+              />
+            ) : (
+              <Text style={styles(colorScheme, orientation).modalSubtitle}>
+                {selectedTracks.length} tracks ·{' '}
+                {selectedPlaylist?.rules
+                  ? describeRules(selectedPlaylist.rules)
+                  : isLikedSongs
+                    ? 'newest first, long-press to select'
+                    : 'long-press to select, drag ≡ to reorder'}
+              </Text>
+            )}
+            <DraggableList
+              data={selectedTracks}
+              itemHeight={PLAYLIST_ITEM_HEIGHT}
               keyExtractor={(item) => item.id}
+              onReorder={moveInPlaylist}
               renderItem={renderPlaylistItem}
               ListEmptyComponent={<Text style={styles(colorScheme, orientation).emptyText}>No tracks in this playlist</Text>}
               style={styles(colorScheme, orientation).trackList}
             />
+            <TouchableOpacity onPress={closePlaylistModal} style={styles(colorScheme, orientation).closeButton}>
+              <Text style={styles(colorScheme, orientation).closeButtonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+          {undoSnackbar}
+        </View>
+      </Modal>
+
+      {/* Add Selection to Playlist Modal */}
+      <Modal
+        visible={pickerModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setPickerModalVisible(false)}
+      >
+        <View style={styles(colorScheme, orientation).modalOverlay}>
+          <View style={styles(colorScheme, orientation).modalCard}>
+            <Text style={styles(colorScheme, orientation).modalTitle}>
+              Add {describeCount(selectedSongIds.size, 'song')} to...
+            </Text>
             <TouchableOpacity
-              onPress={() => setPlaylistModalVisible(false)}
+              onPress={() => addSelectedToPlaylist(LIKED_SONGS.id)}
+              style={styles(colorScheme, orientation).pickerItem}
+            >
+              <Text style={styles(colorScheme, orientation).actionButtonText}>♥ {LIKED_SONGS.title}</Text>
+            </TouchableOpacity>
+            {editablePlaylists.map((playlist) => (
+              <TouchableOpacity
+                key={playlist.id}
+                onPress={() => addSelectedToPlaylist(playlist.id)}
+                style={styles(colorScheme, orientation).pickerItem}
+              >
+                <Text style={styles(colorScheme, orientation).actionButtonText}>{playlist.title}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              onPress={() => setPickerModalVisible(false)}
               style={styles(colorScheme, orientation).closeButton}
             >
-              <Text style={styles(colorScheme, orientation).closeButtonText}>Close</Text>
+              <Text style={styles(colorScheme, orientation).closeButtonText}>Cancel</Text>
             </TouchableOpacity>
           </View>
         </View>
       </Modal>
 
+      {songOptionsPicker === 'sort' && (
+        <OptionPicker
+          visible
+          title="Sort Songs"
+          options={SONG_SORT_OPTIONS}
+          selected={songSort}
+          onSelect={setSongSort}
+          onClose={() => setSongOptionsPicker(null)}
+        />
+      )}
+      {songOptionsPicker === 'filter' && (
+        <OptionPicker
+          visible
+          title="Show Songs"
+          options={(Object.keys(RATING_FILTERS) as RatingFilter[]).map((filter) => ({
+            value: filter,
+            label: RATING_FILTERS[filter].label,
+          }))}
+          selected={ratingFilter}
+          onSelect={setRatingFilter}
+          onClose={() => setSongOptionsPicker(null)}
+        />
+      )}
+
+      {!playlistModalVisible && undoSnackbar}
+
      
       <TouchableOpacity
         onPress={() => navigation.navigate('MusicPlayerScreen')}
@@ -597,7 +867,7 @@ export default function PlaylistScreen() {
   );
 }
 
-const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'landscape') =>
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
   StyleSheet.create({
     container: {
       flex: 1,
@@ -615,6 +885,18 @@ const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'land
       color: scheme === 'dark' ? '#ffffff' : '#1e293b',
       textAlign: 'center',
     },
+    importButton: {
+      marginTop: 8,
+      paddingVertical: 6,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+    },
+    importButtonText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
     searchInput: {
       height: 50,
       backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0', 
@@ -731,12 +1013,39 @@ const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'land
       gap: 10,
     },
     playlistTrackItem: {
+      height: PLAYLIST_ITEM_HEIGHT,
       flexDirection: 'row',
       alignItems: 'center',
-      paddingVertical: 12,
-      paddingHorizontal: 16,
+      paddingRight: 8,
       borderBottomWidth: 1,
       borderBottomColor: scheme === 'dark' ? '#334155' : '#d1d5db',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#ffffff',
+    },
+    selectedItem: {
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+    },
+    draggingItem: {
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.3,
+      shadowRadius: 6,
+      elevation: 8,
+    },
+    dragHandle: {
+      paddingHorizontal: 10,
+      paddingVertical: 12,
+    },
+    dragHandleText: {
+      fontSize: 22,
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+    },
+    pickerItem: {
+      width: '100%',
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#e2e8f0',
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      marginBottom: 8,
     },
     playlistTrackContent: {
       flex: 1,
@@ -765,10 +1074,34 @@ const styles = (scheme: 'light' | 'dark' | null, orientation: 'portrait' | 'land
     actionButton: {
       padding: 8,
     },
-    actionButtonText: {
-      fontSize: 18,
-      color: scheme === 'dark' ? '#ffffff' : '#1e293b', 
-      fontFamily: 'Poppins-SemiBold',
+    filterRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    filterChip: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 12,
+    },
+    filterChipText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    ratingRow: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 12,
+    },
+    lyricsButton: {
+      flex: 0,
+      width: '100%',
+      marginBottom: 12,
     },
     emptyText: {
       color: scheme === 'dark' ? '#d1d5db' : '#64748b', 
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  Dimensions,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { usePlayer } from '../context/PlayerContext';
+import DraggableList from '../components/DraggableList';
+import { formatTime } from '../utils/time';
+
+const ITEM_HEIGHT = 64;
+
+const getOrientation = (): 'portrait' | 'landscape' => {
+  const { width, height } = Dimensions.get('window');
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export default function QueueScreen() {
+  const colorScheme = useColorScheme();
+  const [orientation, setOrientation] = useState(getOrientation());
+  const navigation = useNavigation();
+  const { queue, currentIndex, skipTo, moveInQueue, removeFromQueue, clearQueue, speedOf } = usePlayer();
+
+  useEffect(() => {
+    const subscription = Dimensions.addEventListener('change', () => {
+      setOrientation(getOrientation());
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  return (
+    <View style={styles(colorScheme, orientation).container}>
+      <View style={styles(colorScheme, orientation).header}>
+        <Text style={styles(colorScheme, orientation).title}>Up Next</Text>
+        <TouchableOpacity onPress={clearQueue} style={styles(colorScheme, orientation).clearButton}>
+          <Text style={styles(colorScheme, orientation).clearButtonText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+
+      <DraggableList
+        data={queue}
+        itemHeight={ITEM_HEIGHT}
+        keyExtractor={(item, index) => `${item.id}:${index}`}
+        onReorder={moveInQueue}
+        contentContainerStyle={{ paddingBottom: orientation === 'portrait' ? 120 : 80 }}
+        ListEmptyComponent={<Text style={styles(colorScheme, orientation).emptyText}>The queue is empty</Text>}
+        renderItem={({ item, index, isDragging, dragHandleProps }) => (
+          <View style={[styles(colorScheme, orientation).queueItem, index === currentIndex && styles(colorScheme, orientation).currentItem, isDragging && styles(colorScheme, orientation).draggingItem]}>
+            <View {...dragHandleProps} style={styles(colorScheme, orientation).dragHandle}>
+              <Text style={styles(colorScheme, orientation).dragHandleText}>≡</Text>
+            </View>
+            <TouchableOpacity onPress={() => skipTo(index)} style={styles(colorScheme, orientation).trackInfo}>
+              <Text numberOfLines={1} style={styles(colorScheme, orientation).trackTitle}>
+                {item.title || item.filename}
+              </Text>
+              <Text numberOfLines={1} style={styles(colorScheme, orientation).trackArtist}>
+                {item.artist || 'Unknown'}
+              </Text>
+            </TouchableOpacity>
+            {!!item.duration && (
+              <Text style={styles(colorScheme, orientation).durationText}>
+                {formatTime((item.duration * 1000) / speedOf(item))}
+              </Text>
+            )}
+            <TouchableOpacity onPress={() => removeFromQueue(index)} style={styles(colorScheme, orientation).actionButton}>
+              <Text style={styles(colorScheme, orientation).actionButtonText}>✖</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      />
+
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).backButton}>
+        <Text style={styles(colorScheme, orientation).backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      paddingHorizontal: orientation === 'portrait' ? 16 : 24,
+      paddingTop: orientation === 'portrait' ? 50 : 30,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: orientation === 'portrait' ? 24 : 18,
+    },
+    title: {
+      fontSize: orientation === 'portrait' ? 32 : 36,
+      fontFamily: 'Poppins-Black',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+    },
+    clearButton: {
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+    },
+    clearButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    queueItem: {
+      height: ITEM_HEIGHT - 8,
+      marginVertical: 4,
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      borderRadius: 12,
+      paddingHorizontal: 8,
+    },
+    currentItem: {
+      backgroundColor: scheme === 'dark' ? '#1a2b4d' : '#dbeafe',
+      borderWidth: 1,
+      borderColor: scheme === 'dark' ? '#3b82f6' : '#93c5fd',
+    },
+    draggingItem: {
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.3,
+      shadowRadius: 6,
+      elevation: 8,
+    },
+    dragHandle: {
+      paddingHorizontal: 10,
+      paddingVertical: 12,
+    },
+    dragHandleText: {
+      fontSize: 22,
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+    },
+    trackInfo: {
+      flex: 1,
+      marginLeft: 4,
+    },
+    trackTitle: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    trackArtist: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      fontFamily: 'Poppins-Regular',
+    },
+    durationText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      fontFamily: 'Poppins-Regular',
+      marginHorizontal: 8,
+    },
+    actionButton: {
+      padding: 8,
+    },
+    actionButtonText: {
+      fontSize: 18,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      textAlign: 'center',
+      marginTop: 20,
+      fontSize: 16,
+      fontFamily: 'Poppins-Regular',
+    },
+    backButton: {
+      position: 'absolute',
+      bottom: 20,
+      left: 16,
+      right: 16,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      fontWeight: '600',
+    },
+  });
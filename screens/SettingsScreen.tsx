@@ -0,0 +1,399 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Dimensions,
+  Switch,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import Slider from '@react-native-community/slider';
+import { useLibrary } from '../context/LibraryContext';
+import { usePlayer } from '../context/PlayerContext';
+import { useRatings } from '../context/RatingsContext';
+import { Backup, BackupError, exportBackup, pickBackup, restoreBackup, RestoreMode } from '../services/backup';
+import { MAX_CROSSFADE_SECONDS, ReplayGainMode } from '../services/preferences';
+import { FALLBACK_RANGE_DB, formatDecibels, PREAMP_RANGE_DB, REPLAY_GAIN_MODES } from '../services/replayGain';
+import { MAX_SPOKEN_WORD_MINUTES } from '../services/spokenWord';
+
+const getOrientation = (): 'portrait' | 'landscape' => {
+  const { width, height } = Dimensions.get('window');
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export default function SettingsScreen() {
+  const colorScheme = useColorScheme();
+  const [orientation, setOrientation] = useState(getOrientation());
+  const [isBusy, setIsBusy] = useState(false);
+  const navigation = useNavigation();
+  const { tracks } = useLibrary();
+  const {
+    setShuffle,
+    setRepeat,
+    crossfadeSeconds,
+    gaplessAlbums,
+    setCrossfade,
+    setGaplessAlbums,
+    replayGainMode,
+    replayGainPreampDb,
+    replayGainFallbackDb,
+    preventClipping,
+    setReplayGain,
+    setPitchCorrection,
+    spokenWordMinutes,
+    spokenWordFolders,
+    setSpokenWordMinutes,
+    setSpokenWordFolder,
+    setSpokenWordFolders,
+  } = usePlayer();
+  const { reload: reloadRatings } = useRatings();
+
+  useEffect(() => {
+    const subscription = Dimensions.addEventListener('change', () => {
+      setOrientation(getOrientation());
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      await exportBackup(tracks);
+    } catch (error) {
+      console.error('Failed to export backup', error);
+      Alert.alert('Backup failed', 'The backup file could not be created.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const restore = async (backup: Backup, mode: RestoreMode) => {
+    setIsBusy(true);
+    try {
+      const summary = await restoreBackup(backup, mode, tracks);
+      await reloadRatings();
+      if (mode === 'replace') {
+        setShuffle(summary.preferences.shuffle);
+        setRepeat(summary.preferences.repeat);
+        setCrossfade(summary.preferences.crossfadeSeconds);
+        setGaplessAlbums(summary.preferences.gaplessAlbums);
+        setReplayGain({
+          replayGainMode: summary.preferences.replayGainMode,
+          replayGainPreampDb: summary.preferences.replayGainPreampDb,
+          replayGainFallbackDb: summary.preferences.replayGainFallbackDb,
+          preventClipping: summary.preferences.preventClipping,
+        });
+        setPitchCorrection(summary.preferences.pitchCorrection);
+        setSpokenWordMinutes(summary.preferences.spokenWordMinutes);
+        setSpokenWordFolders(summary.preferences.spokenWordFolders);
+      }
+      const missing = summary.missingTracks.length;
+      Alert.alert(
+        'Backup restored',
+        `${summary.playlists} playlists restored.` +
+          (missing > 0 ? ` ${missing} tracks from the backup aren't in your library and were skipped.` : '')
+      );
+    } catch (error) {
+      console.error('Failed to restore backup', error);
+      Alert.alert('Restore failed', error instanceof BackupError ? error.message : 'Nothing was changed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    let backup: Backup | null;
+    try {
+      backup = await pickBackup();
+    } catch (error) {
+      console.error('Failed to read backup', error);
+      Alert.alert('Restore failed', error instanceof BackupError ? error.message : 'The file could not be read.');
+      return;
+    }
+    if (!backup) return;
+    const picked = backup;
+    Alert.alert(
+      'Restore backup',
+      `Backup from ${new Date(picked.createdAt).toLocaleString()} with ${picked.playlists.length} playlists.`,
+      [
+        { text: 'Merge', onPress: () => restore(picked, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => restore(picked, 'replace') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles(colorScheme, orientation).container}>
+      <Text style={styles(colorScheme, orientation).title}>Settings</Text>
+      <ScrollView contentContainerStyle={{ paddingBottom: 100 }}>
+        <Text style={styles(colorScheme, orientation).sectionTitle}>Playback</Text>
+        <Text style={styles(colorScheme, orientation).sectionText}>
+          The next track is always loaded ahead of time, so songs follow each other without a gap. Crossfade blends
+          the end of one song into the start of the next.
+        </Text>
+        <View style={styles(colorScheme, orientation).settingRow}>
+          <Text style={styles(colorScheme, orientation).settingLabel}>Crossfade</Text>
+          <Text style={styles(colorScheme, orientation).settingValue}>
+            {crossfadeSeconds > 0 ? `${crossfadeSeconds} s` : 'Off'}
+          </Text>
+        </View>
+        <Slider
+          minimumValue={0}
+          maximumValue={MAX_CROSSFADE_SECONDS}
+          step={1}
+          value={crossfadeSeconds}
+          onSlidingComplete={setCrossfade}
+          minimumTrackTintColor={colorScheme === 'dark' ? '#3b82f6' : '#2563eb'}
+          maximumTrackTintColor={colorScheme === 'dark' ? '#334155' : '#cbd5e1'}
+          thumbTintColor={colorScheme === 'dark' ? '#ffffff' : '#1e293b'}
+        />
+        <View style={styles(colorScheme, orientation).settingRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles(colorScheme, orientation).settingLabel}>Keep albums gapless</Text>
+            <Text style={styles(colorScheme, orientation).settingHint}>
+              Don't crossfade between consecutive tracks from the same album
+            </Text>
+          </View>
+          <Switch value={gaplessAlbums} onValueChange={setGaplessAlbums} disabled={crossfadeSeconds === 0} />
+        </View>
+
+        <Text style={styles(colorScheme, orientation).sectionTitle}>Volume Leveling</Text>
+        <Text style={styles(colorScheme, orientation).sectionText}>
+          Uses ReplayGain tags to play every song at a similar loudness. Album mode keeps the differences between
+          tracks of one album. Songs can only be turned down, never above their own level.
+        </Text>
+        <View style={styles(colorScheme, orientation).modeRow}>
+          {(Object.keys(REPLAY_GAIN_MODES) as ReplayGainMode[]).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              onPress={() => setReplayGain({ replayGainMode: mode })}
+              style={[
+                styles(colorScheme, orientation).modeChip,
+                replayGainMode === mode && styles(colorScheme, orientation).modeChipActive,
+              ]}
+            >
+              <Text
+                style={[
+                  styles(colorScheme, orientation).settingLabel,
+                  replayGainMode === mode && styles(colorScheme, orientation).modeChipTextActive,
+                ]}
+              >
+                {REPLAY_GAIN_MODES[mode]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {replayGainMode !== 'off' && (
+          <>
+            <View style={styles(colorScheme, orientation).settingRow}>
+              <Text style={styles(colorScheme, orientation).settingLabel}>Preamp</Text>
+              <Text style={styles(colorScheme, orientation).settingValue}>{formatDecibels(replayGainPreampDb)}</Text>
+            </View>
+            <Slider
+              minimumValue={PREAMP_RANGE_DB.min}
+              maximumValue={PREAMP_RANGE_DB.max}
+              step={1}
+              value={replayGainPreampDb}
+              onSlidingComplete={(value) => setReplayGain({ replayGainPreampDb: value })}
+              minimumTrackTintColor={colorScheme === 'dark' ? '#3b82f6' : '#2563eb'}
+              maximumTrackTintColor={colorScheme === 'dark' ? '#334155' : '#cbd5e1'}
+              thumbTintColor={colorScheme === 'dark' ? '#ffffff' : '#1e293b'}
+            />
+            <View style={styles(colorScheme, orientation).settingRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles(colorScheme, orientation).settingLabel}>Untagged songs</Text>
+                <Text style={styles(colorScheme, orientation).settingHint}>Gain for songs without ReplayGain tags</Text>
+              </View>
+              <Text style={styles(colorScheme, orientation).settingValue}>{formatDecibels(replayGainFallbackDb)}</Text>
+            </View>
+            <Slider
+              minimumValue={FALLBACK_RANGE_DB.min}
+              maximumValue={FALLBACK_RANGE_DB.max}
+              step={1}
+              value={replayGainFallbackDb}
+              onSlidingComplete={(value) => setReplayGain({ replayGainFallbackDb: value })}
+              minimumTrackTintColor={colorScheme === 'dark' ? '#3b82f6' : '#2563eb'}
+              maximumTrackTintColor={colorScheme === 'dark' ? '#334155' : '#cbd5e1'}
+              thumbTintColor={colorScheme === 'dark' ? '#ffffff' : '#1e293b'}
+            />
+            <View style={styles(colorScheme, orientation).settingRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles(colorScheme, orientation).settingLabel}>Prevent clipping</Text>
+                <Text style={styles(colorScheme, orientation).settingHint}>
+                  Turn down songs that would peak too high
+                </Text>
+              </View>
+              <Switch value={preventClipping} onValueChange={(value) => setReplayGain({ preventClipping: value })} />
+            </View>
+          </>
+        )}
+
+        <Text style={styles(colorScheme, orientation).sectionTitle}>Audiobooks & Podcasts</Text>
+        <Text style={styles(colorScheme, orientation).sectionText}>
+          Long files and folders you mark in Browse pick up where you left off, skip 30 seconds at a time, and have
+          chapters and bookmarks.
+        </Text>
+        <View style={styles(colorScheme, orientation).settingRow}>
+          <Text style={styles(colorScheme, orientation).settingLabel}>Files longer than</Text>
+          <Text style={styles(colorScheme, orientation).settingValue}>
+            {spokenWordMinutes > 0 ? `${spokenWordMinutes} min` : 'Off'}
+          </Text>
+        </View>
+        <Slider
+          minimumValue={0}
+          maximumValue={MAX_SPOKEN_WORD_MINUTES}
+          step={5}
+          value={spokenWordMinutes}
+          onSlidingComplete={setSpokenWordMinutes}
+          minimumTrackTintColor={colorScheme === 'dark' ? '#3b82f6' : '#2563eb'}
+          maximumTrackTintColor={colorScheme === 'dark' ? '#334155' : '#cbd5e1'}
+          thumbTintColor={colorScheme === 'dark' ? '#ffffff' : '#1e293b'}
+        />
+        {spokenWordFolders.map((folder) => (
+          <View key={folder} style={styles(colorScheme, orientation).settingRow}>
+            <Text numberOfLines={1} style={[styles(colorScheme, orientation).settingHint, { flex: 1 }]}>
+              📁 {folder}
+            </Text>
+            <TouchableOpacity onPress={() => setSpokenWordFolder(folder, false)}>
+              <Text style={styles(colorScheme, orientation).settingValue}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <Text style={styles(colorScheme, orientation).sectionTitle}>Backup & Restore</Text>
+        <Text style={styles(colorScheme, orientation).sectionText}>
+          Save your playlists, liked songs and ratings, listening history, search history and playback settings to a
+          file, or bring them back from one. Merging adds to what you have; replacing overwrites it.
+        </Text>
+        <TouchableOpacity
+          disabled={isBusy}
+          onPress={handleExport}
+          style={[styles(colorScheme, orientation).settingButton, isBusy && styles(colorScheme, orientation).disabled]}
+        >
+          <Text style={styles(colorScheme, orientation).settingButtonText}>Export Backup</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          disabled={isBusy}
+          onPress={handleRestore}
+          style={[styles(colorScheme, orientation).settingButton, isBusy && styles(colorScheme, orientation).disabled]}
+        >
+          <Text style={styles(colorScheme, orientation).settingButtonText}>Restore from Backup</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).backButton}>
+        <Text style={styles(colorScheme, orientation).backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      paddingHorizontal: orientation === 'portrait' ? 16 : 24,
+      paddingTop: orientation === 'portrait' ? 50 : 30,
+    },
+    title: {
+      fontSize: orientation === 'portrait' ? 32 : 36,
+      fontFamily: 'Poppins-Black',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      marginBottom: 16,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontFamily: 'Poppins-SemiBold',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      marginTop: 12,
+      marginBottom: 4,
+    },
+    sectionText: {
+      fontSize: 14,
+      fontFamily: 'Poppins-Regular',
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      marginBottom: 12,
+    },
+    settingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    settingLabel: {
+      fontSize: 16,
+      fontFamily: 'Poppins-Medium',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+    },
+    settingValue: {
+      fontSize: 16,
+      fontFamily: 'Poppins-Regular',
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+    },
+    settingHint: {
+      fontSize: 13,
+      fontFamily: 'Poppins-Regular',
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+    },
+    modeRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    modeChip: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+    },
+    modeChipActive: {
+      backgroundColor: scheme === 'dark' ? '#3b82f6' : '#2563eb',
+    },
+    modeChipTextActive: {
+      color: '#ffffff',
+    },
+    settingButton: {
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      marginBottom: 10,
+    },
+    settingButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    disabled: {
+      opacity: 0.5,
+    },
+    backButton: {
+      position: 'absolute',
+      bottom: 20,
+      left: 16,
+      right: 16,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,394 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Dimensions,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { useLibrary } from '../context/LibraryContext';
+import { useRatings } from '../context/RatingsContext';
+import OptionPicker, { Option } from '../components/OptionPicker';
+import { describeCount } from '../services/browse';
+import { getTrackStats } from '../services/playHistory';
+import { loadPlaylists, savePlaylists } from '../services/playlists';
+import { applyRatings } from '../services/ratings';
+import {
+  defaultCondition,
+  evaluateRules,
+  SMART_FIELDS,
+  SMART_OPERATORS,
+  SMART_PRESETS,
+  SMART_SORTS,
+} from '../services/smartPlaylists';
+import {
+  RootStackParamList,
+  SmartCondition,
+  SmartField,
+  SmartOperator,
+  SmartRules,
+  SmartSort,
+  TrackStats,
+} from '../types';
+
+type PickerTarget = { kind: 'field' | 'operator'; index: number } | { kind: 'sort' };
+
+const getOrientation = (): 'portrait' | 'landscape' => {
+  const { width, height } = Dimensions.get('window');
+  return width > height ? 'landscape' : 'portrait';
+};
+
+const EMPTY_RULES: SmartRules = { match: 'all', conditions: [], sort: 'title' };
+
+const isNumeric = (field: SmartField) => !['artist', 'album', 'genre', 'favourite'].includes(field);
+
+export default function SmartPlaylistScreen() {
+  const colorScheme = useColorScheme();
+  const [orientation, setOrientation] = useState(getOrientation());
+  const [title, setTitle] = useState('');
+  const [rules, setRules] = useState<SmartRules>(EMPTY_RULES);
+  const [limitText, setLimitText] = useState('');
+  const [picker, setPicker] = useState<PickerTarget | null>(null);
+  const [trackStats, setTrackStats] = useState<Map<string, TrackStats>>(new Map());
+  const navigation = useNavigation();
+  const playlistId = useRoute<RouteProp<RootStackParamList, 'SmartPlaylistScreen'>>().params?.playlistId;
+  const { tracks } = useLibrary();
+  const { ratings } = useRatings();
+
+  useEffect(() => {
+    const subscription = Dimensions.addEventListener('change', () => {
+      setOrientation(getOrientation());
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  useEffect(() => {
+    getTrackStats()
+      .then(setTrackStats)
+      .catch((error) => console.error('Failed to load play counts', error));
+  }, []);
+
+  useEffect(() => {
+    if (!playlistId) return;
+    loadPlaylists().then((playlists) => {
+      const playlist = playlists.find((candidate) => candidate.id === playlistId);
+      if (!playlist?.rules) return;
+      setTitle(playlist.title);
+      applyRules(playlist.rules);
+    });
+  }, [playlistId]);
+
+  const limit = parseInt(limitText, 10) > 0 ? parseInt(limitText, 10) : undefined;
+  const preview = useMemo(
+    () => evaluateRules({ ...rules, limit }, tracks, applyRatings(trackStats, ratings)),
+    [rules, limit, tracks, trackStats, ratings]
+  );
+
+  const applyRules = (updated: SmartRules) => {
+    setRules(updated);
+    setLimitText(updated.limit ? String(updated.limit) : '');
+  };
+
+  const updateCondition = (index: number, patch: Partial<SmartCondition>) =>
+    setRules((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => (i === index ? { ...condition, ...patch } : condition)),
+    }));
+
+  const removeCondition = (index: number) =>
+    setRules((prev) => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }));
+
+  const addCondition = () =>
+    setRules((prev) => ({ ...prev, conditions: [...prev.conditions, defaultCondition('artist')] }));
+
+  const save = async () => {
+    if (!title.trim()) {
+      Alert.alert('Name your playlist', 'Smart playlists need a title.');
+      return;
+    }
+    const playlists = await loadPlaylists();
+    const playlist = { id: playlistId || Date.now().toString(), title: title.trim(), trackIds: [], rules: { ...rules, limit } };
+    const updated = playlists.some((candidate) => candidate.id === playlist.id)
+      ? playlists.map((candidate) => (candidate.id === playlist.id ? playlist : candidate))
+      : [...playlists, playlist];
+    if (await savePlaylists(updated)) navigation.goBack();
+    else Alert.alert('Save failed', `${playlist.title} could not be saved.`);
+  };
+
+  const pickerProps = (): { title: string; options: Option<string>[]; selected: string; onSelect: (value: string) => void } | null => {
+    if (!picker) return null;
+    if (picker.kind === 'sort') {
+      return {
+        title: 'Sort by',
+        options: Object.entries(SMART_SORTS).map(([value, sort]) => ({ value, label: sort.label })),
+        selected: rules.sort,
+        onSelect: (sort) => setRules((prev) => ({ ...prev, sort: sort as SmartSort })),
+      };
+    }
+    const condition = rules.conditions[picker.index];
+    if (picker.kind === 'field') {
+      return {
+        title: 'Field',
+        options: Object.entries(SMART_FIELDS).map(([value, field]) => ({ value, label: field.label })),
+        selected: condition.field,
+        onSelect: (field) => updateCondition(picker.index, defaultCondition(field as SmartField)),
+      };
+    }
+    return {
+      title: SMART_FIELDS[condition.field].label,
+      options: SMART_FIELDS[condition.field].operators.map((value) => ({ value, label: SMART_OPERATORS[value] })),
+      selected: condition.operator,
+      onSelect: (operator) => updateCondition(picker.index, { operator: operator as SmartOperator }),
+    };
+  };
+
+  const activePicker = pickerProps();
+
+  return (
+    <View style={styles(colorScheme, orientation).container}>
+      <Text style={styles(colorScheme, orientation).title}>⚡ Smart Playlist</Text>
+      <ScrollView contentContainerStyle={{ paddingBottom: 100 }} keyboardShouldPersistTaps="handled">
+        <TextInput
+          style={styles(colorScheme, orientation).input}
+          placeholder="Playlist Title"
+          placeholderTextColor={colorScheme === 'dark' ? '#aaaaaa' : '#666666'}
+          value={title}
+          onChangeText={setTitle}
+        />
+
+        {!playlistId && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles(colorScheme, orientation).chipRow}>
+            {SMART_PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.title}
+                onPress={() => {
+                  setTitle(preset.title);
+                  applyRules(preset.rules);
+                }}
+                style={styles(colorScheme, orientation).chip}
+              >
+                <Text style={styles(colorScheme, orientation).chipText}>{preset.title}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles(colorScheme, orientation).chipRow}>
+          {(['all', 'any'] as const).map((match) => (
+            <TouchableOpacity
+              key={match}
+              onPress={() => setRules((prev) => ({ ...prev, match }))}
+              style={[styles(colorScheme, orientation).chip, rules.match === match && styles(colorScheme, orientation).activeChip]}
+            >
+              <Text style={styles(colorScheme, orientation).chipText}>
+                {match === 'all' ? 'Match all rules' : 'Match any rule'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {rules.conditions.map((condition, index) => (
+          <View key={index} style={styles(colorScheme, orientation).conditionRow}>
+            <TouchableOpacity
+              onPress={() => setPicker({ kind: 'field', index })}
+              style={styles(colorScheme, orientation).selectButton}
+            >
+              <Text numberOfLines={1} style={styles(colorScheme, orientation).selectText}>
+                {SMART_FIELDS[condition.field].label} ▾
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setPicker({ kind: 'operator', index })}
+              style={styles(colorScheme, orientation).selectButton}
+            >
+              <Text numberOfLines={1} style={styles(colorScheme, orientation).selectText}>
+                {SMART_OPERATORS[condition.operator]} ▾
+              </Text>
+            </TouchableOpacity>
+            {condition.field !== 'favourite' && (
+              <TextInput
+                style={styles(colorScheme, orientation).valueInput}
+                placeholder={SMART_FIELDS[condition.field].unit || 'value'}
+                placeholderTextColor={colorScheme === 'dark' ? '#aaaaaa' : '#666666'}
+                keyboardType={isNumeric(condition.field) ? 'numeric' : 'default'}
+                value={condition.value}
+                onChangeText={(value) => updateCondition(index, { value })}
+              />
+            )}
+            <TouchableOpacity onPress={() => removeCondition(index)} style={styles(colorScheme, orientation).removeButton}>
+              <Text style={styles(colorScheme, orientation).selectText}>✖</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <TouchableOpacity onPress={addCondition} style={styles(colorScheme, orientation).addButton}>
+          <Text style={styles(colorScheme, orientation).selectText}>+ Add Rule</Text>
+        </TouchableOpacity>
+
+        <View style={styles(colorScheme, orientation).conditionRow}>
+          <TouchableOpacity onPress={() => setPicker({ kind: 'sort' })} style={styles(colorScheme, orientation).selectButton}>
+            <Text numberOfLines={1} style={styles(colorScheme, orientation).selectText}>
+              Sort: {SMART_SORTS[rules.sort].label} ▾
+            </Text>
+          </TouchableOpacity>
+          <TextInput
+            style={styles(colorScheme, orientation).valueInput}
+            placeholder="No limit"
+            placeholderTextColor={colorScheme === 'dark' ? '#aaaaaa' : '#666666'}
+            keyboardType="numeric"
+            value={limitText}
+            onChangeText={setLimitText}
+          />
+        </View>
+
+        <Text style={styles(colorScheme, orientation).previewText}>
+          Matches {describeCount(preview.length, 'song')} right now
+        </Text>
+      </ScrollView>
+
+      <View style={styles(colorScheme, orientation).footer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).footerButton}>
+          <Text style={styles(colorScheme, orientation).footerButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={save} style={[styles(colorScheme, orientation).footerButton, styles(colorScheme, orientation).primaryButton]}>
+          <Text style={styles(colorScheme, orientation).footerButtonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      {activePicker && (
+        <OptionPicker
+          visible
+          title={activePicker.title}
+          options={activePicker.options}
+          selected={activePicker.selected}
+          onSelect={activePicker.onSelect}
+          onClose={() => setPicker(null)}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      paddingHorizontal: orientation === 'portrait' ? 16 : 24,
+      paddingTop: orientation === 'portrait' ? 50 : 30,
+    },
+    title: {
+      fontSize: orientation === 'portrait' ? 32 : 36,
+      fontFamily: 'Poppins-Black',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      marginBottom: 16,
+    },
+    input: {
+      height: 50,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      borderRadius: 15,
+      paddingHorizontal: 20,
+      marginBottom: 12,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontSize: 16,
+      fontFamily: 'Poppins-Medium',
+    },
+    chipRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 20,
+    },
+    activeChip: {
+      backgroundColor: scheme === 'dark' ? '#2563eb' : '#93c5fd',
+    },
+    chipText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    conditionRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginBottom: 8,
+    },
+    selectButton: {
+      flexShrink: 1,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 10,
+      paddingHorizontal: 12,
+      borderRadius: 10,
+    },
+    selectText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Medium',
+    },
+    valueInput: {
+      flex: 1,
+      minWidth: 60,
+      height: 40,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      borderRadius: 10,
+      paddingHorizontal: 10,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontSize: 14,
+      fontFamily: 'Poppins-Regular',
+    },
+    removeButton: {
+      padding: 8,
+    },
+    addButton: {
+      alignSelf: 'flex-start',
+      paddingVertical: 10,
+      paddingHorizontal: 12,
+      marginBottom: 16,
+    },
+    previewText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-Regular',
+      marginTop: 8,
+    },
+    footer: {
+      position: 'absolute',
+      bottom: 20,
+      left: 16,
+      right: 16,
+      flexDirection: 'row',
+      gap: 12,
+    },
+    footerButton: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    primaryButton: {
+      backgroundColor: scheme === 'dark' ? '#2563eb' : '#3b82f6',
+    },
+    footerButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      fontWeight: '600',
+    },
+  });
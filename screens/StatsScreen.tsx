@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SectionList,
+  Dimensions,
+  useColorScheme,
+  ColorSchemeName,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useLibrary } from '../context/LibraryContext';
+import { usePlayer } from '../context/PlayerContext';
+import { GroupRow, TrackRow } from '../components/BrowseRows';
+import { describeCount, getAlbums, getArtists } from '../services/browse';
+import { getPlayTotals, getRecentlyPlayed, PlayTotals } from '../services/playHistory';
+import { formatListeningTime, periodStart, rankGroups, rankTracks, STATS_PERIODS, StatsPeriod } from '../services/stats';
+import { Track } from '../types';
+
+const TOP_LIMIT = 10;
+const RECENT_LIMIT = 50;
+
+type StatsRow =
+  | { kind: 'top'; track: Track; plays: number; index: number }
+  | { kind: 'artist' | 'album'; name: string; subtitle: string; artwork?: string; key: string; plays: number }
+  | { kind: 'recent'; track: Track; index: number };
+
+const getOrientation = (): 'portrait' | 'landscape' => {
+  const { width, height } = Dimensions.get('window');
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export default function StatsScreen() {
+  const colorScheme = useColorScheme();
+  const [orientation, setOrientation] = useState(getOrientation());
+  const [period, setPeriod] = useState<StatsPeriod>('week');
+  const [totals, setTotals] = useState<{ tracks: Map<string, PlayTotals>; listenedMs: number } | null>(null);
+  const [recentIds, setRecentIds] = useState<string[]>([]);
+  const navigation = useNavigation();
+  const { tracks, tracksById } = useLibrary();
+  const { currentTrack, play } = usePlayer();
+
+  useEffect(() => {
+    const subscription = Dimensions.addEventListener('change', () => {
+      setOrientation(getOrientation());
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      getPlayTotals(periodStart(period))
+        .then(setTotals)
+        .catch((error) => console.error('Failed to load listening stats', error));
+      getRecentlyPlayed(RECENT_LIMIT)
+        .then(setRecentIds)
+        .catch((error) => console.error('Failed to load recently played', error));
+    }, [period])
+  );
+
+  const recentTracks = useMemo(() => recentIds.flatMap((id) => tracksById.get(id) || []), [recentIds, tracksById]);
+
+  const { topTracks, sections, totalPlays } = useMemo(() => {
+    const playTotals = totals?.tracks || new Map<string, PlayTotals>();
+    const played = tracks.filter((track) => playTotals.has(track.id));
+    const rankedTracks = rankTracks(playTotals, tracksById, TOP_LIMIT);
+    const groupRow = (kind: 'artist' | 'album') => (ranked: ReturnType<typeof rankGroups>[number]): StatsRow => ({
+      kind,
+      key: ranked.group.key,
+      name: ranked.group.name,
+      subtitle: [kind === 'album' ? ranked.group.subtitle : undefined, describeCount(ranked.plays, 'play')]
+        .filter(Boolean)
+        .join(' · '),
+      artwork: ranked.group.artwork,
+      plays: ranked.plays,
+    });
+    return {
+      topTracks: rankedTracks.map((ranked) => ranked.track),
+      totalPlays: [...playTotals.values()].reduce((sum, total) => sum + total.plays, 0),
+      sections: [
+        {
+          title: 'Top Tracks',
+          data: rankedTracks.map((ranked, index): StatsRow => ({ kind: 'top', index, ...ranked })),
+        },
+        { title: 'Top Artists', data: rankGroups(getArtists(played), playTotals, TOP_LIMIT).map(groupRow('artist')) },
+        { title: 'Top Albums', data: rankGroups(getAlbums(played), playTotals, TOP_LIMIT).map(groupRow('album')) },
+        { title: 'Recently Played', data: recentTracks.map((track, index): StatsRow => ({ kind: 'recent', track, index })) },
+      ].filter((section) => section.data.length > 0),
+    };
+  }, [totals, tracks, tracksById, recentTracks]);
+
+  const renderRow = (item: StatsRow) => {
+    if (item.kind === 'top') {
+      return (
+        <TrackRow
+          track={item.track}
+          isCurrent={currentTrack?.id === item.track.id}
+          leading={String(item.index + 1)}
+          subtitle={`${item.track.artist || 'Unknown'} · ${describeCount(item.plays, 'play')}`}
+          onPress={() => play(topTracks, item.index, { type: 'history' })}
+        />
+      );
+    }
+    if (item.kind === 'recent') {
+      return (
+        <TrackRow
+          track={item.track}
+          isCurrent={currentTrack?.id === item.track.id}
+          onPress={() => play(recentTracks, item.index, { type: 'history' })}
+        />
+      );
+    }
+    return (
+      <GroupRow
+        name={item.name}
+        subtitle={item.subtitle}
+        icon={item.kind === 'album' ? '💿' : '🎤'}
+        artwork={item.artwork}
+        onPress={() => navigation.navigate('BrowseDetailScreen', { view: { kind: item.kind, key: item.key, name: item.name } })}
+      />
+    );
+  };
+
+  return (
+    <View style={styles(colorScheme, orientation).container}>
+      <Text style={styles(colorScheme, orientation).title}>Listening Stats</Text>
+      <View style={styles(colorScheme, orientation).tabs}>
+        {(Object.keys(STATS_PERIODS) as StatsPeriod[]).map((key) => (
+          <TouchableOpacity
+            key={key}
+            onPress={() => setPeriod(key)}
+            style={[styles(colorScheme, orientation).tab, period === key && styles(colorScheme, orientation).activeTab]}
+          >
+            <Text style={styles(colorScheme, orientation).tabText}>{STATS_PERIODS[key].label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles(colorScheme, orientation).summary}>
+        <Text style={styles(colorScheme, orientation).summaryValue}>{formatListeningTime(totals?.listenedMs || 0)}</Text>
+        <Text style={styles(colorScheme, orientation).summaryLabel}>listened · {describeCount(totalPlays, 'play')}</Text>
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => ('track' in item ? `${item.kind}:${item.track.id}` : `${item.kind}:${item.key}`)}
+        contentContainerStyle={{ paddingBottom: 100 }}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles(colorScheme, orientation).sectionHeader}>{section.title}</Text>
+        )}
+        renderItem={({ item }) => renderRow(item)}
+        ListEmptyComponent={
+          <Text style={styles(colorScheme, orientation).emptyText}>Nothing played yet. Start listening!</Text>
+        }
+      />
+
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles(colorScheme, orientation).backButton}>
+        <Text style={styles(colorScheme, orientation).backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = (scheme: ColorSchemeName, orientation: 'portrait' | 'landscape') =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#0f172a' : '#f1f5f9',
+      paddingHorizontal: orientation === 'portrait' ? 16 : 24,
+      paddingTop: orientation === 'portrait' ? 50 : 30,
+    },
+    title: {
+      fontSize: orientation === 'portrait' ? 32 : 36,
+      fontFamily: 'Poppins-Black',
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      marginBottom: 16,
+    },
+    tabs: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    tab: {
+      flex: 1,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 10,
+      borderRadius: 12,
+      alignItems: 'center',
+    },
+    activeTab: {
+      backgroundColor: scheme === 'dark' ? '#2563eb' : '#93c5fd',
+    },
+    tabText: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+    },
+    summary: {
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      borderRadius: 15,
+      padding: 16,
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    summaryValue: {
+      fontSize: 28,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-Bold',
+    },
+    summaryLabel: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-Regular',
+    },
+    sectionHeader: {
+      fontSize: 14,
+      color: scheme === 'dark' ? '#9ca3af' : '#64748b',
+      fontFamily: 'Poppins-SemiBold',
+      textTransform: 'uppercase',
+      marginTop: 12,
+      marginBottom: 4,
+    },
+    emptyText: {
+      color: scheme === 'dark' ? '#d1d5db' : '#64748b',
+      textAlign: 'center',
+      marginTop: 20,
+      fontSize: 16,
+      fontFamily: 'Poppins-Regular',
+    },
+    backButton: {
+      position: 'absolute',
+      bottom: 20,
+      left: 16,
+      right: 16,
+      backgroundColor: scheme === 'dark' ? '#1e293b' : '#e2e8f0',
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      shadowColor: scheme === 'dark' ? '#000000' : '#aaaaaa',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: scheme === 'dark' ? '#ffffff' : '#1e293b',
+      fontFamily: 'Poppins-SemiBold',
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,301 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Playlist, Ratings, SmartRules, Track } from '../types';
+import { isObject } from '../utils/guards';
+import { decodeUri } from '../utils/uri';
+import { addTracks, loadPlaylists, playlistTracks, savePlaylists } from './playlists';
+import { defaultPreferences, loadPreferences, Preferences, savePreferences } from './preferences';
+import { getPlayEvents, importPlayEvents, isPlaybackSource, PlayEvent } from './playHistory';
+import { createEntryResolver } from './playlistFiles';
+import { isRatings, loadRatings, mergeRatings, saveRatings } from './ratings';
+import { isSmartRules } from './smartPlaylists';
+import { loadSearchHistory, saveSearchHistory } from './searchHistory';
+
+export const BACKUP_FORMAT = 'music-player-backup';
+export const BACKUP_VERSION = 4;
+
+const BACKUP_DIR = `${FileSystem.cacheDirectory}backups/`;
+
+// Enough about a track to find it again in a library where the media ids are different, e.g. on a new phone.
+export interface TrackReference {
+  id: string;
+  path: string;
+  filename: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number;
+}
+
+export interface BackupPlaylist {
+  id: string;
+  title: string;
+  trackIds: string[];
+  rules?: SmartRules;
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  createdAt: number;
+  tracks: TrackReference[];
+  playlists: BackupPlaylist[];
+  preferences: Preferences;
+  searchHistory: string[];
+  plays: PlayEvent[];
+  ratings: Ratings;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  playlists: number;
+  missingTracks: TrackReference[];
+  preferences: Preferences;
+}
+
+export class BackupError extends Error {}
+
+type RawBackup = Record<string, unknown>;
+
+// Upgrades a parsed backup from the version in its key to the next one. Add an entry whenever BACKUP_VERSION is
+// bumped so files written by older builds keep loading.
+const MIGRATIONS: Record<number, (backup: RawBackup) => RawBackup> = {
+  // Version 2 added smart playlist rules; older files simply have none.
+  1: (backup) => backup,
+  // Version 3 added the listening history.
+  2: (backup) => ({ ...backup, plays: [] }),
+  // Version 4 added favourites and star ratings.
+  3: (backup) => ({ ...backup, ratings: {} }),
+};
+
+const toReference = (track: Track): TrackReference => ({
+  id: track.id,
+  path: track.uri.startsWith('file://') ? decodeUri(track.uri.slice('file://'.length)) : track.uri,
+  filename: track.filename,
+  title: track.title,
+  artist: track.artist,
+  album: track.album,
+  duration: track.duration,
+});
+
+// Tracks that aren't in the library right now can't be described, so they are left out of the backup.
+export const createBackup = async (library: Track[]): Promise<Backup> => {
+  const [playlists, preferences, searchHistory, plays, ratings] = await Promise.all([
+    loadPlaylists(),
+    loadPreferences(),
+    loadSearchHistory(),
+    getPlayEvents(),
+    loadRatings(),
+  ]);
+  const tracksById = new Map(library.map((track) => [track.id, track]));
+  const tracks = new Map<string, TrackReference>();
+  const addReference = (track: Track) => tracks.set(track.id, toReference(track));
+  playlists.forEach((playlist) => playlistTracks(playlist, tracksById).forEach(addReference));
+  [...plays.map((play) => play.trackId), ...Object.keys(ratings)].forEach((id) => {
+    const track = tracksById.get(id);
+    if (track) addReference(track);
+  });
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    tracks: [...tracks.values()],
+    playlists: playlists.map((playlist) => ({
+      id: playlist.id,
+      title: playlist.title,
+      trackIds: playlist.trackIds.filter((id) => tracks.has(id)),
+      rules: playlist.rules,
+    })),
+    preferences,
+    searchHistory,
+    plays: plays.filter((play) => tracks.has(play.trackId)),
+    ratings: Object.fromEntries(Object.entries(ratings).filter(([id]) => tracks.has(id))),
+  };
+};
+
+export const exportBackup = async (library: Track[]) => {
+  const backup = await createBackup(library);
+  await FileSystem.makeDirectoryAsync(BACKUP_DIR, { intermediates: true }).catch(() => undefined);
+  const path = `${BACKUP_DIR}music-backup-${new Date(backup.createdAt).toISOString().slice(0, 10)}.json`;
+  await FileSystem.writeAsStringAsync(path, JSON.stringify(backup));
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  await Sharing.shareAsync(path, { mimeType: 'application/json', UTI: 'public.json', dialogTitle: 'Save backup' });
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptional = (value: unknown, type: 'string' | 'number') => value === undefined || typeof value === type;
+
+const isTrackReference = (track: unknown): track is TrackReference =>
+  isObject(track) &&
+  isString(track.id) &&
+  isString(track.path) &&
+  isString(track.filename) &&
+  ['title', 'artist', 'album'].every((key) => isOptional(track[key], 'string')) &&
+  isOptional(track.duration, 'number');
+
+const isBackupPlaylist =
+  (trackIds: Set<string>) =>
+  (playlist: unknown): playlist is BackupPlaylist =>
+    isObject(playlist) &&
+    isString(playlist.id) &&
+    isString(playlist.title) &&
+    Array.isArray(playlist.trackIds) &&
+    playlist.trackIds.every((id: unknown) => isString(id) && trackIds.has(id)) &&
+    (playlist.rules === undefined || isSmartRules(playlist.rules));
+
+// Plays recorded before sources were tracked have none, so a missing source is fine but a malformed one isn't.
+const isBackupPlay =
+  (trackIds: Set<string>) =>
+  (play: unknown): play is PlayEvent =>
+    isObject(play) &&
+    isString(play.trackId) &&
+    trackIds.has(play.trackId) &&
+    ['startedAt', 'listenedMs', 'durationMs'].every((key) => typeof play[key] === 'number') &&
+    typeof play.completed === 'boolean' &&
+    (play.source === undefined || play.source === null || isPlaybackSource(play.source));
+
+const validate = (backup: RawBackup): Backup => {
+  const damaged = (reason: string) => new BackupError(`This backup is damaged: ${reason}`);
+  const { tracks, playlists, plays, ratings, preferences, searchHistory } = backup;
+  if (!Array.isArray(tracks)) throw damaged('the track list is missing');
+  if (!tracks.every(isTrackReference)) throw damaged('a track reference is invalid');
+  const trackIds = new Set(tracks.map((track) => track.id));
+  if (!Array.isArray(playlists)) throw damaged('the playlist list is missing');
+  if (!playlists.every(isBackupPlaylist(trackIds))) throw damaged('a playlist is invalid');
+  if (!Array.isArray(plays) || !plays.every(isBackupPlay(trackIds))) throw damaged('the listening history is invalid');
+  if (!isRatings(ratings) || !Object.keys(ratings).every((id) => trackIds.has(id))) {
+    throw damaged('the ratings are invalid');
+  }
+  if (!isObject(preferences)) throw damaged('the preferences are missing');
+  if (!Array.isArray(searchHistory) || !searchHistory.every(isString)) {
+    throw damaged('the search history is invalid');
+  }
+  // Unknown or mistyped preference keys are dropped rather than rejecting the whole file.
+  const knownPreferences: Partial<Preferences> = Object.fromEntries(
+    Object.entries(preferences).filter(([key, value]) => {
+      if (!(key in defaultPreferences)) return false;
+      const expected = defaultPreferences[key as keyof Preferences];
+      if (Array.isArray(expected)) return Array.isArray(value) && value.every(isString);
+      return typeof value === typeof expected;
+    })
+  );
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: typeof backup.createdAt === 'number' ? backup.createdAt : 0,
+    tracks,
+    playlists,
+    preferences: { ...defaultPreferences, ...knownPreferences },
+    searchHistory,
+    plays,
+    ratings,
+  };
+};
+
+export const parseBackup = (text: string): Backup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not a backup.');
+  }
+  if (
+    !isObject(parsed) ||
+    parsed.format !== BACKUP_FORMAT ||
+    typeof parsed.version !== 'number' ||
+    !Number.isInteger(parsed.version)
+  ) {
+    throw new BackupError('This file is not a backup.');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of the app. Update the app to restore it.');
+  }
+  let backup = parsed;
+  for (let version = parsed.version; version < BACKUP_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new BackupError(`Backups from version ${version} can no longer be restored.`);
+    backup = { ...migrate(backup), version: version + 1 };
+  }
+  return validate(backup);
+};
+
+// Returns null when the user cancels the picker.
+export const pickBackup = async () => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain', 'application/octet-stream'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+  return parseBackup(await FileSystem.readAsStringAsync(result.assets[0].uri));
+};
+
+// Media ids are only stable on the same device (and get reused on others), so an id match is trusted only when the
+// filename agrees; everything else goes through the path/filename/title matching used for playlist files.
+const resolveTracks = (references: TrackReference[], library: Track[]) => {
+  const byId = new Map(library.map((track) => [track.id, track]));
+  const resolve = createEntryResolver(library);
+  const resolved = new Map<string, string>();
+  const missingTracks: TrackReference[] = [];
+  for (const reference of references) {
+    const sameId = byId.get(reference.id);
+    const track =
+      (sameId?.filename === reference.filename ? sameId : undefined) ||
+      resolve({
+        path: reference.path,
+        title: reference.title,
+        artist: reference.artist,
+        durationSeconds: reference.duration,
+      });
+    if (track) resolved.set(reference.id, track.id);
+    else missingTracks.push(reference);
+  }
+  return { resolved, missingTracks };
+};
+
+const mergePlaylists = (current: Playlist[], restored: Playlist[]) => {
+  const merged = current.map((playlist) => {
+    const incoming = restored.find((candidate) => candidate.id === playlist.id);
+    return incoming ? addTracks(playlist, incoming.trackIds) : playlist;
+  });
+  const currentIds = new Set(current.map((playlist) => playlist.id));
+  return [...merged, ...restored.filter((playlist) => !currentIds.has(playlist.id))];
+};
+
+// The file is validated and resolved before the first write, so a bad backup never touches the current data.
+// Merging keeps the current preferences and adds to playlists; replacing takes everything from the backup.
+export const restoreBackup = async (backup: Backup, mode: RestoreMode, library: Track[]): Promise<RestoreSummary> => {
+  const { resolved, missingTracks } = resolveTracks(backup.tracks, library);
+  const restored: Playlist[] = backup.playlists.map((playlist) => ({
+    id: playlist.id,
+    title: playlist.title,
+    trackIds: [...new Set(playlist.trackIds.flatMap((id) => resolved.get(id) || []))],
+    rules: playlist.rules,
+  }));
+
+  const playlists = mode === 'replace' ? restored : mergePlaylists(await loadPlaylists(), restored);
+  const preferences = mode === 'replace' ? backup.preferences : await loadPreferences();
+  const currentHistory = mode === 'replace' ? [] : await loadSearchHistory();
+  const searchHistory = [...currentHistory, ...backup.searchHistory.filter((query) => !currentHistory.includes(query))];
+
+  const plays = backup.plays.flatMap((play) => {
+    const trackId = resolved.get(play.trackId);
+    return trackId ? [{ ...play, trackId, source: play.source ?? null }] : [];
+  });
+  const restoredRatings: Ratings = Object.fromEntries(
+    Object.entries(backup.ratings).flatMap(([id, rating]) => {
+      const trackId = resolved.get(id);
+      return trackId ? [[trackId, rating]] : [];
+    })
+  );
+  const ratings = mode === 'replace' ? restoredRatings : mergeRatings(await loadRatings(), restoredRatings);
+
+  if (!(await savePlaylists(playlists))) throw new BackupError('Your playlists could not be saved.');
+  if (mode === 'replace') await savePreferences(preferences);
+  await saveSearchHistory(searchHistory);
+  await importPlayEvents(plays, mode === 'replace');
+  await saveRatings(ratings);
+  return { playlists: restored.length, missingTracks, preferences };
+};
@@ -0,0 +1,172 @@
+import { BrowseView, Track } from '../types';
+import { decodeUri } from '../utils/uri';
+
+export interface TrackGroup {
+  key: string;
+  name: string;
+  subtitle?: string;
+  artwork?: string;
+  tracks: Track[];
+}
+
+export interface FolderNode {
+  path: string;
+  name: string;
+  folders: FolderNode[];
+  tracks: Track[];
+}
+
+export const UNKNOWN_ARTIST = 'Unknown Artist';
+export const UNKNOWN_ALBUM = 'Unknown Album';
+export const UNKNOWN_GENRE = 'Unknown Genre';
+
+export const compareText = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+
+const titleOf = (track: Track) => track.title || track.filename;
+
+export const sortAlphabetically = (tracks: Track[]) =>
+  [...tracks].sort((a, b) => compareText(titleOf(a), titleOf(b)));
+
+export const sortAlbumTracks = (tracks: Track[]) =>
+  [...tracks].sort(
+    (a, b) =>
+      (a.discNumber ?? 1) - (b.discNumber ?? 1) ||
+      (a.trackNumber ?? Number.MAX_SAFE_INTEGER) - (b.trackNumber ?? Number.MAX_SAFE_INTEGER) ||
+      compareText(titleOf(a), titleOf(b))
+  );
+
+// Album, then disc and track number, so an artist's songs play in album order.
+const sortArtistTracks = (tracks: Track[]) =>
+  [...tracks].sort(
+    (a, b) =>
+      compareText(a.album || '', b.album || '') ||
+      (a.discNumber ?? 1) - (b.discNumber ?? 1) ||
+      (a.trackNumber ?? Number.MAX_SAFE_INTEGER) - (b.trackNumber ?? Number.MAX_SAFE_INTEGER) ||
+      compareText(titleOf(a), titleOf(b))
+  );
+
+const folderSegments = (track: Track) => {
+  const path = decodeUri(track.uri).replace(/^[a-z-]+:\/\//i, '');
+  return path.split('/').filter(Boolean).slice(0, -1);
+};
+
+export const folderOf = (track: Track) => `/${folderSegments(track).join('/')}`;
+
+const normalize = (value?: string) => value?.trim().toLowerCase() || '';
+
+export const artistKey = (track: Track) => normalize(track.artist);
+
+export const genreKey = (track: Track) => normalize(track.genre);
+
+// Album names like "Greatest Hits" are shared by many artists, so albums are told apart by their folder too.
+export const albumKey = (track: Track) => `${normalize(track.album)}\u0000${folderOf(track)}`;
+
+// Untagged tracks share one group per view, listed after the named ones.
+const groupTracks = (
+  tracks: Track[],
+  keyOf: (track: Track) => string,
+  labelOf: (track: Track) => string | undefined,
+  fallbackName: string,
+  sortTracks: (tracks: Track[]) => Track[]
+) => {
+  const groups = new Map<string, Track[]>();
+  for (const track of tracks) {
+    const key = keyOf(track);
+    const group = groups.get(key);
+    if (group) group.push(track);
+    else groups.set(key, [track]);
+  }
+  return [...groups.entries()]
+    .map(([key, members]): TrackGroup => ({
+      key,
+      name: labelOf(members[0])?.trim() || fallbackName,
+      tracks: sortTracks(members),
+    }))
+    .sort(
+      (a, b) =>
+        Number(!labelOf(a.tracks[0])?.trim()) - Number(!labelOf(b.tracks[0])?.trim()) || compareText(a.name, b.name)
+    );
+};
+
+export const getArtists = (tracks: Track[]) =>
+  groupTracks(tracks, artistKey, (track) => track.artist, UNKNOWN_ARTIST, sortArtistTracks);
+
+export const getAlbums = (tracks: Track[]) =>
+  groupTracks(tracks, albumKey, (track) => track.album, UNKNOWN_ALBUM, sortAlbumTracks).map((group) => ({
+    ...group,
+    subtitle:
+      new Set(group.tracks.map(artistKey)).size > 1 ? 'Various Artists' : group.tracks[0].artist || UNKNOWN_ARTIST,
+    artwork: group.tracks.find((track) => track.artwork)?.artwork,
+  }));
+
+export const getGenres = (tracks: Track[]) =>
+  groupTracks(tracks, genreKey, (track) => track.genre, UNKNOWN_GENRE, sortAlphabetically);
+
+const sortFolder = (node: FolderNode) => {
+  node.folders.sort((a, b) => compareText(a.name, b.name));
+  node.tracks.sort((a, b) => compareText(a.filename, b.filename));
+  node.folders.forEach(sortFolder);
+};
+
+// The tree is rooted at the deepest folder shared by every track, so storage prefixes like
+// /storage/emulated/0 don't add empty levels.
+export const buildFolderTree = (tracks: Track[]): FolderNode => {
+  const paths = tracks.map(folderSegments);
+  let depth = 0;
+  if (paths.length > 0) {
+    const shortest = Math.min(...paths.map((segments) => segments.length));
+    while (depth < shortest && paths.every((segments) => segments[depth] === paths[0][depth])) depth++;
+  }
+  const rootSegments = paths.length > 0 ? paths[0].slice(0, depth) : [];
+  const root: FolderNode = {
+    path: `/${rootSegments.join('/')}`,
+    name: rootSegments[rootSegments.length - 1] || '/',
+    folders: [],
+    tracks: [],
+  };
+
+  tracks.forEach((track, i) => {
+    let node = root;
+    for (const segment of paths[i].slice(depth)) {
+      let child = node.folders.find((folder) => folder.name === segment);
+      if (!child) {
+        child = { path: `${node.path === '/' ? '' : node.path}/${segment}`, name: segment, folders: [], tracks: [] };
+        node.folders.push(child);
+      }
+      node = child;
+    }
+    node.tracks.push(track);
+  });
+
+  sortFolder(root);
+  return root;
+};
+
+export const findFolder = (root: FolderNode, path: string): FolderNode | undefined => {
+  if (root.path === path) return root;
+  for (const folder of root.folders) {
+    if (path === folder.path || path.startsWith(`${folder.path}/`)) return findFolder(folder, path);
+  }
+  return undefined;
+};
+
+// Every track in the folder and its subfolders, in the order the tree lists them.
+export const folderTracks = (node: FolderNode): Track[] => [...node.folders.flatMap(folderTracks), ...node.tracks];
+
+export const tracksForView = (tracks: Track[], view: BrowseView) => {
+  switch (view.kind) {
+    case 'artist':
+      return sortArtistTracks(tracks.filter((track) => artistKey(track) === view.key));
+    case 'album':
+      return sortAlbumTracks(tracks.filter((track) => albumKey(track) === view.key));
+    case 'genre':
+      return sortAlphabetically(tracks.filter((track) => genreKey(track) === view.key));
+    case 'folder': {
+      const node = findFolder(buildFolderTree(tracks), view.key);
+      return node ? folderTracks(node) : [];
+    }
+  }
+};
+
+export const describeCount = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
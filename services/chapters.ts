@@ -0,0 +1,121 @@
+import { ITokenizer } from 'strtok3';
+import { Chapter } from '../types';
+
+const HEADER_SIZE = 10;
+const FLAG_UNSYNCHRONISATION = 0x80;
+const FLAG_EXTENDED_HEADER = 0x40;
+
+const syncsafe = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] & 0x7f) << 21) | ((bytes[at + 1] & 0x7f) << 14) | ((bytes[at + 2] & 0x7f) << 7) | (bytes[at + 3] & 0x7f);
+
+const uint32 = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+
+const ascii = (bytes: Uint8Array, at: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(at, at + length));
+
+// Text frames start with an encoding byte: 0 Latin-1, 1 UTF-16 with BOM, 2 UTF-16BE, 3 UTF-8.
+const decodeText = (bytes: Uint8Array) => {
+  const encoding = bytes[0];
+  let body = bytes.subarray(1);
+  if (encoding === 1 || encoding === 2) {
+    let littleEndian = false;
+    if (encoding === 1 && body.length >= 2) {
+      littleEndian = body[0] === 0xff && body[1] === 0xfe;
+      body = body.subarray(2);
+    }
+    const units: number[] = [];
+    for (let i = 0; i + 1 < body.length; i += 2) {
+      const unit = littleEndian ? body[i] | (body[i + 1] << 8) : (body[i] << 8) | body[i + 1];
+      if (unit === 0) break;
+      units.push(unit);
+    }
+    return String.fromCharCode(...units);
+  }
+  const end = body.indexOf(0);
+  const text = body.subarray(0, end === -1 ? body.length : end);
+  if (encoding === 3) {
+    try {
+      return decodeURIComponent(Array.from(text, (byte) => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+    } catch {
+      return String.fromCharCode(...text);
+    }
+  }
+  return String.fromCharCode(...text);
+};
+
+interface Frame {
+  id: string;
+  data: Uint8Array;
+}
+
+const readFrames = (bytes: Uint8Array, major: number): Frame[] => {
+  const frames: Frame[] = [];
+  let at = 0;
+  while (at + HEADER_SIZE <= bytes.length && bytes[at] !== 0) {
+    const id = ascii(bytes, at, 4);
+    const size = major >= 4 ? syncsafe(bytes, at + 4) : uint32(bytes, at + 4);
+    if (size <= 0 || at + HEADER_SIZE + size > bytes.length) break;
+    frames.push({ id, data: bytes.subarray(at + HEADER_SIZE, at + HEADER_SIZE + size) });
+    at += HEADER_SIZE + size;
+  }
+  return frames;
+};
+
+// A CHAP frame holds an element id, start and end times in milliseconds, two byte offsets, then its own
+// sub-frames, of which TIT2 is the chapter's title.
+const parseChapFrame = (data: Uint8Array, major: number): Chapter | null => {
+  const idEnd = data.indexOf(0);
+  if (idEnd === -1 || idEnd + 17 > data.length) return null;
+  const startMillis = uint32(data, idEnd + 1);
+  const title = readFrames(data.subarray(idEnd + 17), major).find((frame) => frame.id === 'TIT2');
+  return { title: title ? decodeText(title.data) : '', startMillis };
+};
+
+// ID3v2.3 and v2.4 only; v2.2 has no chapter frame, and unsynchronised tags are rare enough to skip. Only frame
+// headers and CHAP frames are read, so cover art in the same tag isn't pulled across the bridge a second time.
+export const readId3Chapters = async (tokenizer: ITokenizer) => {
+  const peek = async (position: number, buffer: Uint8Array) =>
+    (await tokenizer.peekBuffer(buffer, { position, mayBeLess: true })) === buffer.length;
+
+  const header = new Uint8Array(HEADER_SIZE);
+  if (!(await peek(0, header)) || ascii(header, 0, 3) !== 'ID3') return [];
+  const major = header[3];
+  const flags = header[5];
+  if (major < 3 || flags & FLAG_UNSYNCHRONISATION) return [];
+  const end = HEADER_SIZE + syncsafe(header, 6);
+  let at = HEADER_SIZE;
+  if (flags & FLAG_EXTENDED_HEADER) {
+    const size = new Uint8Array(4);
+    if (!(await peek(at, size))) return [];
+    at += major >= 4 ? syncsafe(size, 0) : uint32(size, 0) + 4;
+  }
+
+  const chapters: Chapter[] = [];
+  const frameHeader = new Uint8Array(HEADER_SIZE);
+  while (at + HEADER_SIZE <= end && (await peek(at, frameHeader)) && frameHeader[0] !== 0) {
+    const size = major >= 4 ? syncsafe(frameHeader, 4) : uint32(frameHeader, 4);
+    if (size <= 0 || at + HEADER_SIZE + size > end) break;
+    if (ascii(frameHeader, 0, 4) === 'CHAP') {
+      const data = new Uint8Array(size);
+      const chapter = (await peek(at + HEADER_SIZE, data)) ? parseChapFrame(data, major) : null;
+      if (chapter) chapters.push(chapter);
+    }
+    at += HEADER_SIZE + size;
+  }
+  return chapters;
+};
+
+// Untitled chapters are numbered, and chapters are kept in playback order whatever order the tags were in.
+export const normalizeChapters = (chapters: Chapter[]) =>
+  [...chapters]
+    .sort((a, b) => a.startMillis - b.startMillis)
+    .map((chapter, index) => ({ ...chapter, title: chapter.title.trim() || `Chapter ${index + 1}` }));
+
+export const chapterIndexAt = (chapters: Chapter[], positionMillis: number) => {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.startMillis <= positionMillis) index = i;
+  });
+  return index;
+};
@@ -0,0 +1,96 @@
+import * as SQLite from 'expo-sqlite';
+
+const DATABASE_NAME = 'library.db';
+
+// Each entry upgrades the schema by one version; PRAGMA user_version records how many have been applied.
+const MIGRATIONS: string[] = [
+  `CREATE TABLE tracks (
+    id TEXT PRIMARY KEY NOT NULL,
+    uri TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    duration REAL,
+    modification_time INTEGER NOT NULL,
+    date_added INTEGER,
+    title TEXT,
+    artist TEXT,
+    album TEXT,
+    track_number INTEGER,
+    disc_number INTEGER,
+    year INTEGER,
+    genre TEXT,
+    artwork TEXT,
+    metadata_scanned INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX tracks_artist ON tracks (artist);
+  CREATE INDEX tracks_album ON tracks (album);
+  CREATE INDEX tracks_pending ON tracks (metadata_scanned);`,
+  // Plays aren't tied to the tracks table so history survives a file leaving and coming back to the library.
+  `CREATE TABLE plays (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    track_id TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    listened_ms INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    completed INTEGER NOT NULL,
+    source TEXT
+  );
+  CREATE INDEX plays_track ON plays (track_id, started_at);
+  CREATE INDEX plays_started ON plays (started_at);`,
+  // Tags are read again so files scanned before ReplayGain support pick up their gains.
+  `ALTER TABLE tracks ADD COLUMN track_gain REAL;
+  ALTER TABLE tracks ADD COLUMN track_peak REAL;
+  ALTER TABLE tracks ADD COLUMN album_gain REAL;
+  ALTER TABLE tracks ADD COLUMN album_peak REAL;
+  UPDATE tracks SET metadata_scanned = 0;`,
+  // Chapters only matter in long recordings, so only those are scanned again.
+  `ALTER TABLE tracks ADD COLUMN chapters TEXT;
+  UPDATE tracks SET metadata_scanned = 0 WHERE duration IS NULL OR duration >= 600;
+  CREATE TABLE resume_positions (
+    track_id TEXT PRIMARY KEY NOT NULL,
+    position_ms INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE bookmarks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    track_id TEXT NOT NULL,
+    position_ms INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    note TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX bookmarks_track ON bookmarks (track_id, position_ms);`,
+  // Tracks scanned before lyrics support are looked up when their lyrics are first asked for, not all at once.
+  `CREATE TABLE lyrics (
+    track_id TEXT PRIMARY KEY NOT NULL,
+    text TEXT NOT NULL,
+    source TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );`,
+];
+
+const migrate = async (db: SQLite.SQLiteDatabase) => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  for (let version = row?.user_version ?? 0; version < MIGRATIONS.length; version++) {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(MIGRATIONS[version]);
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+  }
+};
+
+let opening: Promise<SQLite.SQLiteDatabase> | null = null;
+
+export const getDatabase = () => {
+  if (!opening) {
+    opening = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync('PRAGMA journal_mode = WAL');
+      await migrate(db);
+      return db;
+    })().catch((error) => {
+      opening = null;
+      throw error;
+    });
+  }
+  return opening;
+};
@@ -0,0 +1,74 @@
+import * as FileSystem from 'expo-file-system';
+import { AbstractTokenizer, EndOfStreamError, IRandomAccessFileInfo, IReadChunkOptions } from 'strtok3';
+import { base64ToBytes } from '../utils/base64';
+
+const BLOCK_SIZE = 64 * 1024;
+
+// Random-access tokenizer for music-metadata that reads a file in blocks through expo-file-system,
+// so only the tag headers (and cover art) are pulled across the bridge instead of the whole file.
+export class FileSystemTokenizer extends AbstractTokenizer {
+  fileInfo: IRandomAccessFileInfo;
+  private uri: string;
+  private block: { start: number; bytes: Uint8Array } | null = null;
+
+  static async fromUri(uri: string, mimeType?: string) {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) throw new Error(`File not found: ${uri}`);
+    return new FileSystemTokenizer(uri, { size: info.size, mimeType, path: uri });
+  }
+
+  private constructor(uri: string, fileInfo: IRandomAccessFileInfo) {
+    super();
+    this.uri = uri;
+    this.fileInfo = fileInfo;
+  }
+
+  supportsRandomAccess() {
+    return true;
+  }
+
+  setPosition(position: number) {
+    this.position = position;
+  }
+
+  async readBuffer(uint8Array: Uint8Array, options?: IReadChunkOptions) {
+    const normalized = this.normalizeOptions(uint8Array, options);
+    this.position = normalized.position;
+    if (normalized.length === 0) return 0;
+    const bytesRead = await this.readAt(uint8Array, normalized.position, normalized.length);
+    this.position += bytesRead;
+    if (bytesRead < normalized.length && !normalized.mayBeLess) throw new EndOfStreamError();
+    return bytesRead;
+  }
+
+  async peekBuffer(uint8Array: Uint8Array, options?: IReadChunkOptions) {
+    const normalized = this.normalizeOptions(uint8Array, options);
+    if (normalized.length === 0) return 0;
+    const bytesRead = await this.readAt(uint8Array, normalized.position, normalized.length);
+    if (bytesRead < normalized.length && !normalized.mayBeLess) throw new EndOfStreamError();
+    return bytesRead;
+  }
+
+  private async readAt(target: Uint8Array, position: number, length: number) {
+    const end = Math.min(position + length, this.fileInfo.size);
+    let copied = 0;
+    while (position + copied < end) {
+      const at = position + copied;
+      if (!this.block || at < this.block.start || at >= this.block.start + this.block.bytes.length) {
+        const blockLength = Math.min(Math.max(BLOCK_SIZE, end - at), this.fileInfo.size - at);
+        const base64 = await FileSystem.readAsStringAsync(this.uri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position: at,
+          length: blockLength,
+        });
+        this.block = { start: at, bytes: base64ToBytes(base64) };
+        if (this.block.bytes.length === 0) break;
+      }
+      const from = at - this.block.start;
+      const count = Math.min(end - at, this.block.bytes.length - from);
+      target.set(this.block.bytes.subarray(from, from + count), copied);
+      copied += count;
+    }
+    return copied;
+  }
+}
@@ -0,0 +1,246 @@
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import { Track } from '../types';
+import { getDatabase } from './database';
+import { getStoredLyrics, saveLyrics, StoredLyrics } from './lyrics';
+import { ARTWORK_DIR, extractLyrics, extractMetadata, TrackMetadata } from './metadata';
+
+const EXTRACTION_CONCURRENCY = 4;
+const PROGRESS_INTERVAL_MILLIS = 2000;
+const DELETE_BATCH = 200;
+
+interface TrackRow {
+  id: string;
+  uri: string;
+  filename: string;
+  duration: number | null;
+  modification_time: number;
+  date_added: number | null;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  track_number: number | null;
+  disc_number: number | null;
+  year: number | null;
+  genre: string | null;
+  artwork: string | null;
+  track_gain: number | null;
+  track_peak: number | null;
+  album_gain: number | null;
+  album_peak: number | null;
+  chapters: string | null;
+}
+
+const optional = <T>(value: T | null) => (value === null ? undefined : value);
+
+const toTrack = (row: TrackRow): Track => ({
+  id: row.id,
+  uri: row.uri,
+  filename: row.filename,
+  duration: optional(row.duration),
+  dateAdded: optional(row.date_added),
+  title: optional(row.title),
+  artist: optional(row.artist),
+  album: optional(row.album),
+  trackNumber: optional(row.track_number),
+  discNumber: optional(row.disc_number),
+  year: optional(row.year),
+  genre: optional(row.genre),
+  artwork: optional(row.artwork),
+  trackGain: optional(row.track_gain),
+  trackPeak: optional(row.track_peak),
+  albumGain: optional(row.album_gain),
+  albumPeak: optional(row.album_peak),
+  chapters: row.chapters ? JSON.parse(row.chapters) : undefined,
+});
+
+export const getTracks = async (): Promise<Track[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<TrackRow>(
+    'SELECT * FROM tracks ORDER BY COALESCE(title, filename) COLLATE NOCASE'
+  );
+  return rows.map(toTrack);
+};
+
+const fetchAllAssets = async () => {
+  const { status } = await MediaLibrary.requestPermissionsAsync();
+  if (status !== 'granted') return null;
+
+  let allAudioFiles: MediaLibrary.Asset[] = [];
+  let hasNextPage = true;
+  let after: string | undefined;
+
+  while (hasNextPage) {
+    const media = await MediaLibrary.getAssetsAsync({
+      mediaType: 'audio',
+      first: 100,
+      after,
+    });
+    allAudioFiles = [...allAudioFiles, ...media.assets];
+    hasNextPage = media.hasNextPage;
+    after = media.endCursor;
+  }
+  return allAudioFiles;
+};
+
+const readableUri = async (row: Pick<TrackRow, 'id' | 'uri'>) => {
+  if (row.uri.startsWith('file://')) return row.uri;
+  const info = await MediaLibrary.getAssetInfoAsync(row.id);
+  return info.localUri || row.uri;
+};
+
+const syncAssets = async (assets: MediaLibrary.Asset[]) => {
+  const db = await getDatabase();
+  const known = new Map(
+    (await db.getAllAsync<Pick<TrackRow, 'id' | 'modification_time' | 'artwork'>>(
+      'SELECT id, modification_time, artwork FROM tracks'
+    )).map((row) => [row.id, row])
+  );
+  const changed = assets.filter((asset) => known.get(asset.id)?.modification_time !== asset.modificationTime);
+  const present = new Set(assets.map((asset) => asset.id));
+  const removed = [...known.values()].filter((row) => !present.has(row.id));
+  if (changed.length === 0 && removed.length === 0) return false;
+
+  await db.withTransactionAsync(async () => {
+    const upsert = await db.prepareAsync(
+      `INSERT INTO tracks (id, uri, filename, duration, modification_time, date_added, metadata_scanned)
+       VALUES ($id, $uri, $filename, $duration, $modificationTime, $dateAdded, 0)
+       ON CONFLICT(id) DO UPDATE SET
+         uri = excluded.uri,
+         filename = excluded.filename,
+         duration = excluded.duration,
+         modification_time = excluded.modification_time,
+         date_added = excluded.date_added,
+         metadata_scanned = 0`
+    );
+    try {
+      for (const asset of changed) {
+        await upsert.executeAsync({
+          $id: asset.id,
+          $uri: asset.uri,
+          $filename: asset.filename,
+          $duration: asset.duration || 0,
+          $modificationTime: asset.modificationTime,
+          $dateAdded: asset.creationTime,
+        });
+      }
+    } finally {
+      await upsert.finalizeAsync();
+    }
+    for (let i = 0; i < removed.length; i += DELETE_BATCH) {
+      const ids = removed.slice(i, i + DELETE_BATCH).map((row) => row.id);
+      const placeholders = ids.map(() => '?').join(', ');
+      await db.runAsync(`DELETE FROM tracks WHERE id IN (${placeholders})`, ids);
+      // Hand-typed lyrics are kept, like play history, in case the file comes back.
+      await db.runAsync(`DELETE FROM lyrics WHERE source != 'manual' AND track_id IN (${placeholders})`, ids);
+    }
+  });
+
+  await Promise.all(
+    removed
+      .filter((row) => row.artwork?.startsWith(ARTWORK_DIR))
+      .map((row) => FileSystem.deleteAsync(row.artwork as string, { idempotent: true }))
+  );
+  return true;
+};
+
+const saveMetadata = async (id: string, metadata: TrackMetadata) => {
+  const db = await getDatabase();
+  await db.runAsync(
+    `UPDATE tracks SET
+       title = $title,
+       artist = $artist,
+       album = $album,
+       track_number = $trackNumber,
+       disc_number = $discNumber,
+       year = $year,
+       genre = $genre,
+       artwork = $artwork,
+       track_gain = $trackGain,
+       track_peak = $trackPeak,
+       album_gain = $albumGain,
+       album_peak = $albumPeak,
+       chapters = $chapters,
+       duration = COALESCE($duration, duration),
+       metadata_scanned = 1
+     WHERE id = $id`,
+    {
+      $id: id,
+      $title: metadata.title ?? null,
+      $artist: metadata.artist ?? null,
+      $album: metadata.album ?? null,
+      $trackNumber: metadata.trackNumber ?? null,
+      $discNumber: metadata.discNumber ?? null,
+      $year: metadata.year ?? null,
+      $genre: metadata.genre ?? null,
+      $artwork: metadata.artwork ?? null,
+      $trackGain: metadata.trackGain ?? null,
+      $trackPeak: metadata.trackPeak ?? null,
+      $albumGain: metadata.albumGain ?? null,
+      $albumPeak: metadata.albumPeak ?? null,
+      $chapters: metadata.chapters ? JSON.stringify(metadata.chapters) : null,
+      $duration: metadata.duration ?? null,
+    }
+  );
+  if (metadata.lyrics) await saveLyrics(id, metadata.lyrics);
+};
+
+// Reads tags for every row not yet scanned with a small fixed number of workers.
+const extractPending = async (onChange?: () => void) => {
+  const db = await getDatabase();
+  const pending = await db.getAllAsync<TrackRow>('SELECT * FROM tracks WHERE metadata_scanned = 0');
+  let nextIndex = 0;
+  let lastProgressAt = Date.now();
+
+  const worker = async () => {
+    while (nextIndex < pending.length) {
+      const row = pending[nextIndex++];
+      let metadata: TrackMetadata = {};
+      try {
+        metadata = await extractMetadata({ ...row, uri: await readableUri(row) });
+      } catch (error) {
+        console.warn(`Failed to read tags for ${row.filename}`, error);
+      }
+      await saveMetadata(row.id, metadata);
+      if (Date.now() - lastProgressAt >= PROGRESS_INTERVAL_MILLIS) {
+        lastProgressAt = Date.now();
+        onChange?.();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: EXTRACTION_CONCURRENCY }, worker));
+  if (pending.length > 0) onChange?.();
+};
+
+// Cached lyrics are returned as they are; tracks without a cached row are read now, and the result is cached
+// even when there are none.
+export const getTrackLyrics = async (track: Track): Promise<StoredLyrics> => {
+  const stored = await getStoredLyrics(track.id);
+  if (stored) return stored;
+  try {
+    const lyrics = await extractLyrics({ ...track, uri: await readableUri(track) });
+    await saveLyrics(track.id, lyrics);
+    return lyrics;
+  } catch (error) {
+    console.warn(`Failed to read lyrics for ${track.filename}`, error);
+    return { text: '', source: 'none' };
+  }
+};
+
+let currentScan: Promise<void> | null = null;
+
+// Brings the index in line with the media library: only added, modified and deleted assets are touched.
+export const scanLibrary = (onChange?: () => void) => {
+  if (!currentScan) {
+    currentScan = (async () => {
+      const assets = await fetchAllAssets();
+      if (!assets) return;
+      if (await syncAssets(assets)) onChange?.();
+      await extractPending(onChange);
+    })().finally(() => {
+      currentScan = null;
+    });
+  }
+  return currentScan;
+};
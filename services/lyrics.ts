@@ -0,0 +1,125 @@
+import { getDatabase } from './database';
+
+// 'none' records that a track was looked at and has no lyrics, so it isn't read again every time it's opened.
+export type LyricsSource = 'sidecar' | 'embedded' | 'manual' | 'none';
+
+export interface StoredLyrics {
+  text: string;
+  source: LyricsSource;
+}
+
+export interface LyricLine {
+  timeMillis?: number;
+  text: string;
+}
+
+export interface ParsedLyrics {
+  synced: boolean;
+  lines: LyricLine[];
+}
+
+const TIMESTAMP = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const TAG_LINE = /^\[([a-z#]+):(.*)\]$/i;
+
+const toMillis = (minutes: string, seconds: string, fraction = '') =>
+  (Number(minutes) * 60 + Number(seconds)) * 1000 + Math.round(Number(`0.${fraction || '0'}`) * 1000);
+
+// LRC lines can carry several timestamps for a repeated chorus; `[offset:]` moves every line, positive meaning
+// earlier. Text without any timestamps is treated as plain lyrics, one line per line.
+export const parseLyrics = (text: string): ParsedLyrics => {
+  let offset = 0;
+  const timed: Required<LyricLine>[] = [];
+  const plain: LyricLine[] = [];
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = raw.trim();
+    const tag = line.match(TAG_LINE);
+    if (tag) {
+      if (tag[1].toLowerCase() === 'offset') offset = Number(tag[2]) || 0;
+      continue;
+    }
+    const stamps = [...line.matchAll(TIMESTAMP)];
+    if (stamps.length === 0) {
+      plain.push({ text: line });
+      continue;
+    }
+    const lyric = line.replace(TIMESTAMP, '').trim();
+    stamps.forEach(([, minutes, seconds, fraction]) =>
+      timed.push({ timeMillis: toMillis(minutes, seconds, fraction), text: lyric })
+    );
+  }
+  if (timed.length === 0) {
+    while (plain.length > 0 && !plain[plain.length - 1].text) plain.pop();
+    return { synced: false, lines: plain };
+  }
+  return {
+    synced: true,
+    lines: timed
+      .map((line) => ({ ...line, timeMillis: Math.max(0, line.timeMillis - offset) }))
+      .sort((a, b) => a.timeMillis - b.timeMillis),
+  };
+};
+
+const formatStamp = (millis: number) => {
+  const minutes = String(Math.floor(millis / 60000)).padStart(2, '0');
+  const seconds = String(Math.floor((millis % 60000) / 1000)).padStart(2, '0');
+  const hundredths = String(Math.floor((millis % 1000) / 10)).padStart(2, '0');
+  return `[${minutes}:${seconds}.${hundredths}]`;
+};
+
+// Synced lyrics from tags are kept as LRC text, so every source is stored and edited the same way.
+export const toLrc = (lines: { text: string; timestamp?: number }[]) =>
+  lines.map((line) => `${formatStamp(line.timestamp ?? 0)}${line.text.trim()}`).join('\n');
+
+export const lineIndexAt = (lines: LyricLine[], positionMillis: number) => {
+  let index = -1;
+  lines.forEach((line, i) => {
+    if ((line.timeMillis ?? Infinity) <= positionMillis) index = i;
+  });
+  return index;
+};
+
+export const getStoredLyrics = async (trackId: string) => {
+  try {
+    const db = await getDatabase();
+    return await db.getFirstAsync<StoredLyrics>('SELECT text, source FROM lyrics WHERE track_id = ?', [trackId]);
+  } catch (error) {
+    console.error('Failed to load lyrics', error);
+    return null;
+  }
+};
+
+// Lyrics typed in by hand win over anything read from files later.
+export const saveLyrics = async (trackId: string, lyrics: StoredLyrics) => {
+  try {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO lyrics (track_id, text, source, updated_at) VALUES ($trackId, $text, $source, $updatedAt)
+       ON CONFLICT (track_id) DO UPDATE SET
+         text = excluded.text,
+         source = excluded.source,
+         updated_at = excluded.updated_at
+       WHERE excluded.source = 'manual' OR lyrics.source != 'manual'`,
+      {
+        $trackId: trackId,
+        $text: lyrics.text,
+        $source: lyrics.source,
+        $updatedAt: Date.now(),
+      }
+    );
+    return true;
+  } catch (error) {
+    console.error('Failed to save lyrics', error);
+    return false;
+  }
+};
+
+export const deleteLyrics = async (trackId: string) => {
+  try {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM lyrics WHERE track_id = ?', [trackId]);
+    return true;
+  } catch (error) {
+    console.error('Failed to delete lyrics', error);
+    return false;
+  }
+};
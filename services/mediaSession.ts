@@ -0,0 +1,67 @@
+import MusicControl, { Command } from 'react-native-music-control';
+import { Track } from '../types';
+
+const NOTIFICATION_ID = 1;
+const CHANNEL_ID = 'music-controls';
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  togglePlayPause: () => void;
+  next: () => void;
+  previous: () => void;
+  seekTo: (positionMillis: number) => void;
+  stop: () => void;
+}
+
+export const setupMediaSession = (handlers: MediaSessionHandlers) => {
+  MusicControl.setNotificationId(NOTIFICATION_ID, CHANNEL_ID);
+  MusicControl.enableBackgroundMode(true);
+  MusicControl.handleAudioInterruptions(true);
+
+  MusicControl.enableControl('play', true);
+  MusicControl.enableControl('pause', true);
+  MusicControl.enableControl('stop', false);
+  MusicControl.enableControl('nextTrack', true);
+  MusicControl.enableControl('previousTrack', true);
+  MusicControl.enableControl('changePlaybackPosition', true);
+  MusicControl.enableControl('seek', true);
+  MusicControl.enableControl('closeNotification', true, { when: 'paused' });
+
+  const toMillis = (seconds: unknown) => Number(seconds) * 1000;
+  MusicControl.on(Command.play, handlers.play);
+  MusicControl.on(Command.pause, handlers.pause);
+  MusicControl.on(Command.togglePlayPause, handlers.togglePlayPause);
+  MusicControl.on(Command.nextTrack, handlers.next);
+  MusicControl.on(Command.previousTrack, handlers.previous);
+  MusicControl.on(Command.changePlaybackPosition, (seconds) => handlers.seekTo(toMillis(seconds)));
+  MusicControl.on(Command.seek, (seconds) => handlers.seekTo(toMillis(seconds)));
+  MusicControl.on(Command.closeNotification, handlers.stop);
+
+  return () => MusicControl.stopControl();
+};
+
+// The notification only shows the title, artist and album, so a running sleep timer goes on the artist line.
+export const setNowPlaying = (track: Track, durationMillis: number, sleepLabel?: string | null) => {
+  MusicControl.setNowPlaying({
+    title: track.title || track.filename,
+    artist: [track.artist || 'Unknown', sleepLabel].filter(Boolean).join(' · '),
+    album: track.album || '',
+    artwork: track.artwork,
+    duration: durationMillis / 1000,
+    color: 0x1e90ff,
+    colorized: true,
+    notificationIcon: 'notification_icon',
+  });
+};
+
+// `speed` lets the lock screen advance its progress bar at the playback rate between updates.
+export const updatePlayback = (isPlaying: boolean, positionMillis: number, speed = 1) => {
+  MusicControl.updatePlayback({
+    state: isPlaying ? MusicControl.STATE_PLAYING : MusicControl.STATE_PAUSED,
+    elapsedTime: positionMillis / 1000,
+    speed,
+  });
+};
+
+export const resetNowPlaying = () => MusicControl.resetNowPlaying();
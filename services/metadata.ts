@@ -0,0 +1,134 @@
+import * as FileSystem from 'expo-file-system';
+import { IAudioMetadata, IPicture, parseFromTokenizer, selectCover, TimestampFormat } from 'music-metadata';
+import { Chapter, Track } from '../types';
+import { bytesToBase64 } from '../utils/base64';
+import { normalizeChapters, readId3Chapters } from './chapters';
+import { FileSystemTokenizer } from './fileTokenizer';
+import { StoredLyrics, toLrc } from './lyrics';
+
+export type TrackMetadata = Pick<
+  Track,
+  | 'title'
+  | 'artist'
+  | 'album'
+  | 'trackNumber'
+  | 'discNumber'
+  | 'year'
+  | 'genre'
+  | 'artwork'
+  | 'duration'
+  | 'trackGain'
+  | 'trackPeak'
+  | 'albumGain'
+  | 'albumPeak'
+  | 'chapters'
+> & { lyrics?: StoredLyrics };
+
+// Artwork paths outlive the session, so they go in the document directory rather than the purgeable cache.
+export const ARTWORK_DIR = `${FileSystem.documentDirectory}artwork/`;
+
+const MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  m4b: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/opus',
+  wav: 'audio/wav',
+  wma: 'audio/x-ms-wma',
+};
+
+// MP4 and Vorbis lyrics are plain strings, which music-metadata only keeps when they're already LRC.
+const NATIVE_LYRICS_TAGS = ['©lyr', 'LYRICS', 'UNSYNCEDLYRICS'];
+
+const extensionOf = (filename: string) => filename.split('.').pop()?.toLowerCase() || '';
+
+const saveArtwork = async (trackId: string, picture: IPicture) => {
+  await FileSystem.makeDirectoryAsync(ARTWORK_DIR, { intermediates: true }).catch(() => undefined);
+  const extension = picture.format.includes('png') ? 'png' : 'jpg';
+  const path = `${ARTWORK_DIR}${trackId.replace(/[^\w-]/g, '_')}.${extension}`;
+  await FileSystem.writeAsStringAsync(path, bytesToBase64(picture.data), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return path;
+};
+
+const embeddedLyrics = ({ common, native }: IAudioMetadata) => {
+  const tagged = Object.values(native)
+    .flat()
+    .find((tag) => NATIVE_LYRICS_TAGS.includes(tag.id) && typeof tag.value === 'string' && tag.value.trim());
+  if (tagged) return tagged.value as string;
+  const synced = common.lyrics?.find(
+    (tag) => tag.timeStampFormat === TimestampFormat.milliseconds && tag.syncText.length > 0
+  );
+  if (synced) return toLrc(synced.syncText);
+  return common.lyrics?.find((tag) => tag.text?.trim())?.text;
+};
+
+// A `.lrc` file with the same name next to the audio file, as most lyrics tools save them.
+const readSidecarLyrics = async (uri: string) => {
+  if (!uri.startsWith('file://')) return undefined;
+  const path = uri.replace(/\.[^./]+$/, '.lrc');
+  try {
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) return undefined;
+    return (await FileSystem.readAsStringAsync(path)).trim() || undefined;
+  } catch (error) {
+    console.warn(`Failed to read ${path}`, error);
+    return undefined;
+  }
+};
+
+// A sidecar file is preferred: it's usually there because someone went looking for better lyrics than the tags.
+const pickLyrics = async (uri: string, metadata: IAudioMetadata): Promise<StoredLyrics> => {
+  const sidecar = await readSidecarLyrics(uri);
+  if (sidecar) return { text: sidecar, source: 'sidecar' };
+  const embedded = embeddedLyrics(metadata);
+  return embedded ? { text: embedded, source: 'embedded' } : { text: '', source: 'none' };
+};
+
+export const extractLyrics = async (track: Pick<Track, 'uri' | 'filename'>) => {
+  const tokenizer = await FileSystemTokenizer.fromUri(track.uri, MIME_TYPES[extensionOf(track.filename)]);
+  try {
+    return await pickLyrics(track.uri, await parseFromTokenizer(tokenizer, { duration: false, skipCovers: true }));
+  } finally {
+    await tokenizer.close();
+  }
+};
+
+export const extractMetadata = async (track: Pick<Track, 'id' | 'uri' | 'filename'>): Promise<TrackMetadata> => {
+  const tokenizer = await FileSystemTokenizer.fromUri(track.uri, MIME_TYPES[extensionOf(track.filename)]);
+  try {
+    const metadata = await parseFromTokenizer(tokenizer, { duration: false, includeChapters: true });
+    const { common, format } = metadata;
+    const cover = selectCover(common.picture);
+    const chapters: Chapter[] = format.chapters?.length
+      ? format.chapters.map((chapter) => ({
+          title: chapter.title,
+          startMillis: format.sampleRate ? Math.round((chapter.sampleOffset / format.sampleRate) * 1000) : 0,
+        }))
+      : await readId3Chapters(tokenizer);
+    return {
+      title: common.title,
+      artist: common.artist || common.albumartist,
+      album: common.album,
+      trackNumber: common.track.no ?? undefined,
+      discNumber: common.disk.no ?? undefined,
+      year: common.year,
+      genre: common.genre?.[0],
+      duration: format.duration,
+      trackGain: common.replaygain_track_gain?.dB,
+      trackPeak: common.replaygain_track_peak?.ratio,
+      albumGain: common.replaygain_album_gain?.dB,
+      albumPeak: common.replaygain_album_peak?.ratio,
+      chapters: chapters.length > 0 ? normalizeChapters(chapters) : undefined,
+      artwork: cover ? await saveArtwork(track.id, cover) : undefined,
+      lyrics: await pickLyrics(track.uri, metadata),
+    };
+  } finally {
+    await tokenizer.close();
+  }
+};
@@ -0,0 +1,246 @@
+import * as SQLite from 'expo-sqlite';
+import { BrowseKind, PlaybackSource, Track, TrackStats } from '../types';
+import { isObject } from '../utils/guards';
+import { getDatabase } from './database';
+import * as player from './player';
+
+// Anything shorter is a stray tap or a track flicked past while skipping, and isn't worth a row.
+const MIN_LISTENED_MILLIS = 1000;
+// A play counts once the track finished, or half of it (at most four minutes) was heard; anything less is a skip.
+const COUNTS_AS_PLAY = `(completed = 1 OR listened_ms >= MIN(MAX(duration_ms, 0) / 2, 240000))`;
+
+export interface PlayEvent {
+  trackId: string;
+  startedAt: number;
+  listenedMs: number;
+  durationMs: number;
+  completed: boolean;
+  source: PlaybackSource | null;
+}
+
+export interface PlayTotals {
+  plays: number;
+  listenedMs: number;
+}
+
+interface PlayRow {
+  track_id: string;
+  started_at: number;
+  listened_ms: number;
+  duration_ms: number;
+  completed: number;
+  source: string | null;
+}
+
+interface Session {
+  track: Track;
+  startedAt: number;
+  listenedMs: number;
+  durationMs: number;
+  playingSince: number | null;
+  source: PlaybackSource | null;
+}
+
+let session: Session | null = null;
+
+const insertEvents = async (db: SQLite.SQLiteDatabase, events: PlayEvent[]) => {
+  const statement = await db.prepareAsync(
+    `INSERT INTO plays (track_id, started_at, listened_ms, duration_ms, completed, source)
+     VALUES ($trackId, $startedAt, $listenedMs, $durationMs, $completed, $source)`
+  );
+  try {
+    for (const event of events) {
+      await statement.executeAsync({
+        $trackId: event.trackId,
+        $startedAt: event.startedAt,
+        $listenedMs: Math.round(event.listenedMs),
+        $durationMs: Math.round(event.durationMs),
+        $completed: event.completed ? 1 : 0,
+        $source: event.source ? JSON.stringify(event.source) : null,
+      });
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+};
+
+export const recordPlay = async (event: PlayEvent) => {
+  try {
+    await insertEvents(await getDatabase(), [event]);
+  } catch (error) {
+    console.error('Failed to record play', error);
+  }
+};
+
+const pauseClock = (current: Session) => {
+  if (current.playingSince === null) return;
+  current.listenedMs += Date.now() - current.playingSince;
+  current.playingSince = null;
+};
+
+const finishSession = (completed: boolean) => {
+  const finished = session;
+  session = null;
+  if (!finished) return;
+  pauseClock(finished);
+  if (!completed && finished.listenedMs < MIN_LISTENED_MILLIS) return;
+  recordPlay({
+    trackId: finished.track.id,
+    startedAt: finished.startedAt,
+    listenedMs: finished.listenedMs,
+    durationMs: finished.durationMs,
+    completed,
+    source: finished.source,
+  });
+};
+
+const startSession = (track: Track) => {
+  const state = player.getState();
+  session = {
+    track,
+    startedAt: Date.now(),
+    listenedMs: 0,
+    durationMs: state.durationMillis || (track.duration || 0) * 1000,
+    playingSince: null,
+    source: state.source,
+  };
+};
+
+// Listening time is measured while the player reports it is playing, so pauses and buffering don't count.
+export const startPlayHistory = () => {
+  const unsubscribers = [
+    player.addListener('change', (state) => {
+      if (!session || state.currentTrack?.id !== session.track.id) return;
+      if (state.durationMillis > 0) session.durationMs = state.durationMillis;
+      if (state.playbackState === 'playing') {
+        if (session.playingSince === null) session.playingSince = Date.now();
+      } else {
+        pauseClock(session);
+      }
+    }),
+    player.addListener('trackChanged', (track) => {
+      finishSession(false);
+      if (track) startSession(track);
+    }),
+    // With repeat one the same track starts over without a trackChanged, so that begins a new play here.
+    player.addListener('ended', (track) => {
+      finishSession(true);
+      startSession(track);
+    }),
+  ];
+  const current = player.getState().currentTrack;
+  if (current) startSession(current);
+  return () => {
+    finishSession(false);
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+};
+
+// Favourites and ratings aren't part of the log; `applyRatings` fills them in.
+export const getTrackStats = async (): Promise<Map<string, TrackStats>> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ track_id: string; plays: number; skips: number; last_played: number }>(
+    `SELECT track_id,
+            SUM(CASE WHEN ${COUNTS_AS_PLAY} THEN 1 ELSE 0 END) AS plays,
+            SUM(CASE WHEN ${COUNTS_AS_PLAY} THEN 0 ELSE 1 END) AS skips,
+            MAX(started_at) AS last_played
+     FROM plays GROUP BY track_id`
+  );
+  return new Map(
+    rows.map((row) => [
+      row.track_id,
+      { playCount: row.plays, skipCount: row.skips, lastPlayed: row.last_played, favourite: false, rating: 0 },
+    ])
+  );
+};
+
+export const getPlayTotals = async (since: number) => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ track_id: string; plays: number; listened_ms: number }>(
+    `SELECT track_id, COUNT(*) AS plays, SUM(listened_ms) AS listened_ms
+     FROM plays WHERE started_at >= ? AND ${COUNTS_AS_PLAY} GROUP BY track_id`,
+    since
+  );
+  const listened = await db.getFirstAsync<{ total: number | null }>(
+    'SELECT SUM(listened_ms) AS total FROM plays WHERE started_at >= ?',
+    since
+  );
+  return {
+    tracks: new Map<string, PlayTotals>(
+      rows.map((row) => [row.track_id, { plays: row.plays, listenedMs: row.listened_ms }])
+    ),
+    listenedMs: listened?.total || 0,
+  };
+};
+
+// Most recent first, each track once.
+export const getRecentlyPlayed = async (limit: number) => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ track_id: string }>(
+    'SELECT track_id FROM plays GROUP BY track_id ORDER BY MAX(started_at) DESC LIMIT ?',
+    limit
+  );
+  return rows.map((row) => row.track_id);
+};
+
+const BROWSE_KINDS: BrowseKind[] = ['artist', 'album', 'genre', 'folder'];
+
+export const isPlaybackSource = (value: unknown): value is PlaybackSource => {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'library':
+    case 'history':
+      return true;
+    case 'playlist':
+      return typeof value.playlistId === 'string';
+    case 'search':
+      return typeof value.query === 'string';
+    case 'browse': {
+      const { view } = value;
+      return (
+        isObject(view) &&
+        BROWSE_KINDS.some((kind) => kind === view.kind) &&
+        typeof view.key === 'string' &&
+        typeof view.name === 'string'
+      );
+    }
+    default:
+      return false;
+  }
+};
+
+const parseSource = (source: string | null): PlaybackSource | null => {
+  if (!source) return null;
+  try {
+    const parsed: unknown = JSON.parse(source);
+    return isPlaybackSource(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getPlayEvents = async (): Promise<PlayEvent[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<PlayRow>('SELECT * FROM plays ORDER BY started_at');
+  return rows.map((row) => ({
+    trackId: row.track_id,
+    startedAt: row.started_at,
+    listenedMs: row.listened_ms,
+    durationMs: row.duration_ms,
+    completed: row.completed === 1,
+    source: parseSource(row.source),
+  }));
+};
+
+// Used by restore: replacing clears the log first, merging skips events that are already there.
+export const importPlayEvents = async (events: PlayEvent[], replace: boolean) => {
+  const db = await getDatabase();
+  await db.withTransactionAsync(async () => {
+    if (replace) await db.runAsync('DELETE FROM plays');
+    const rows = replace
+      ? []
+      : await db.getAllAsync<{ track_id: string; started_at: number }>('SELECT track_id, started_at FROM plays');
+    const existing = new Set(rows.map((row) => `${row.track_id}:${row.started_at}`));
+    await insertEvents(db, events.filter((event) => !existing.has(`${event.trackId}:${event.startedAt}`)));
+  });
+};
@@ -0,0 +1,73 @@
+import { Track } from '../types';
+import { isObject } from '../utils/guards';
+import { folderOf } from './browse';
+import { createStore } from './storage';
+
+export const MIN_SPEED = 0.5;
+export const MAX_SPEED = 3;
+export const SPEED_STEP = 0.05;
+export const SPEED_PRESETS = [0.75, 1, 1.25, 1.5, 2];
+
+export type SpeedScope = 'track' | 'folder';
+
+// A track's own speed wins over its folder's, so one fast episode doesn't change the rest of the podcast.
+export interface PlaybackSpeeds {
+  tracks: Record<string, number>;
+  folders: Record<string, number>;
+}
+
+const EMPTY_SPEEDS: PlaybackSpeeds = { tracks: {}, folders: {} };
+
+const isSpeedMap = (value: unknown): value is Record<string, number> =>
+  isObject(value) &&
+  Object.values(value).every((speed) => typeof speed === 'number' && speed >= MIN_SPEED && speed <= MAX_SPEED);
+
+const speedStore = createStore<PlaybackSpeeds>({
+  key: 'playbackSpeeds',
+  version: 1,
+  defaultValue: EMPTY_SPEEDS,
+  validate: (data): data is PlaybackSpeeds => isObject(data) && isSpeedMap(data.tracks) && isSpeedMap(data.folders),
+});
+
+export const loadPlaybackSpeeds = async (): Promise<PlaybackSpeeds> => {
+  try {
+    return await speedStore.load();
+  } catch (error) {
+    console.error('Failed to load playback speeds', error);
+    return EMPTY_SPEEDS;
+  }
+};
+
+export const savePlaybackSpeeds = async (speeds: PlaybackSpeeds) => {
+  try {
+    await speedStore.save(speeds);
+  } catch (error) {
+    console.error('Failed to save playback speeds', error);
+  }
+};
+
+// Snapped to the step and to two decimals, since multiples of 0.05 aren't exact in floating point.
+export const clampSpeed = (speed: number) =>
+  Math.min(MAX_SPEED, Math.max(MIN_SPEED, Number((Math.round(speed / SPEED_STEP) * SPEED_STEP).toFixed(2))));
+
+export const speedFor = (speeds: PlaybackSpeeds, track: Track | null | undefined) => {
+  if (!track) return 1;
+  return speeds.tracks[track.id] ?? speeds.folders[folderOf(track)] ?? 1;
+};
+
+export const scopeOf = (speeds: PlaybackSpeeds, track: Track): SpeedScope =>
+  speeds.tracks[track.id] === undefined && speeds.folders[folderOf(track)] !== undefined ? 'folder' : 'track';
+
+// Normal speed isn't stored unless a track needs it to override its folder's, and saving for the folder clears
+// the track's own speed so the new one takes effect.
+export const withSpeed = (speeds: PlaybackSpeeds, track: Track, speed: number, scope: SpeedScope): PlaybackSpeeds => {
+  const key = scope === 'track' ? track.id : folderOf(track);
+  const { [key]: _previous, ...rest } = speeds[scope === 'track' ? 'tracks' : 'folders'];
+  const overridesFolder = scope === 'track' && speeds.folders[folderOf(track)] !== undefined;
+  const entries = speed === 1 && !overridesFolder ? rest : { ...rest, [key]: speed };
+  if (scope === 'track') return { ...speeds, tracks: entries };
+  const { [track.id]: _own, ...tracks } = speeds.tracks;
+  return { tracks, folders: entries };
+};
+
+export const formatSpeed = (speed: number) => `${Number(speed.toFixed(2))}×`;
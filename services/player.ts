@@ -0,0 +1,753 @@
+import { Audio, AVPlaybackStatus, AVPlaybackStatusSuccess } from 'expo-av';
+import { PlaybackSource, Track } from '../types';
+import { albumKey } from './browse';
+import {
+  indexAfterMove,
+  insertAt,
+  loadQueue,
+  moveItem,
+  remapIndices,
+  removeAt,
+  saveQueue,
+  shuffleIndices,
+} from './queue';
+import { loadPreferences, MAX_CROSSFADE_SECONDS, RepeatMode, savePreferences } from './preferences';
+import { replayGainFor, ReplayGainSettings } from './replayGain';
+import { getResumePosition, isSpokenWord, saveResumePosition, SpokenWordSettings } from './spokenWord';
+import {
+  clampSpeed,
+  loadPlaybackSpeeds,
+  PlaybackSpeeds,
+  savePlaybackSpeeds,
+  scopeOf,
+  speedFor,
+  SpeedScope,
+  withSpeed,
+} from './playbackSpeed';
+import { clearCheckpoint, loadCheckpoint, saveCheckpoint } from './session';
+
+export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlayerState extends ReplayGainSettings, SpokenWordSettings {
+  currentTrack: Track | null;
+  queue: Track[];
+  currentIndex: number;
+  positionMillis: number;
+  durationMillis: number;
+  playbackState: PlaybackState;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  crossfadeSeconds: number;
+  gaplessAlbums: boolean;
+  source: PlaybackSource | null;
+  // Positions and durations stay in track time; divide by `rate` for how long something takes to hear.
+  rate: number;
+  rateScope: SpeedScope;
+  pitchCorrection: boolean;
+  // Spoken-word tracks resume where they were left and skip in larger steps.
+  spokenWord: boolean;
+}
+
+export interface PlayerEvents {
+  change: PlayerState;
+  trackChanged: Track | null;
+  ended: Track;
+  seeked: number;
+  error: unknown;
+}
+
+type Listener<E extends keyof PlayerEvents> = (payload: PlayerEvents[E]) => void;
+
+const initialState: PlayerState = {
+  currentTrack: null,
+  queue: [],
+  currentIndex: -1,
+  positionMillis: 0,
+  durationMillis: 0,
+  playbackState: 'idle',
+  shuffle: false,
+  repeat: 'off',
+  crossfadeSeconds: 0,
+  gaplessAlbums: true,
+  replayGainMode: 'off',
+  replayGainPreampDb: 0,
+  replayGainFallbackDb: -6,
+  preventClipping: true,
+  source: null,
+  rate: 1,
+  rateScope: 'track',
+  pitchCorrection: true,
+  spokenWord: false,
+  spokenWordMinutes: 30,
+  spokenWordFolders: [],
+};
+
+const CHECKPOINT_INTERVAL_MILLIS = 5000;
+// How long before the end of a track the next one is loaded, on top of any crossfade.
+const PRELOAD_AHEAD_MILLIS = 20000;
+const FADE_STEP_MILLIS = 100;
+
+interface Preloaded {
+  index: number;
+  trackId: string;
+  sound: Audio.Sound;
+}
+
+interface Crossfade {
+  from: Audio.Sound;
+  to: Audio.Sound;
+  fromGain: number;
+  toGain: number;
+  timer: ReturnType<typeof setInterval>;
+}
+
+let state: PlayerState = initialState;
+let sound: Audio.Sound | null = null;
+let audioModeReady = false;
+// Bumped on every load so status callbacks from a superseded sound are ignored.
+let loadToken = 0;
+// Queue positions still to be played in this shuffle cycle, and the positions already played, most recent last.
+let shuffleOrder: number[] = [];
+let history: number[] = [];
+let lastCheckpointAt = 0;
+let volume = 1;
+// Set by the sleep timer: when the current track ends, the next one is loaded paused instead of played.
+let pauseAfterCurrent = false;
+// The next track, loaded but not started, so it can begin the moment the current one stops.
+let preloaded: Preloaded | null = null;
+let isPreloading = false;
+let crossfade: Crossfade | null = null;
+let sampleListener: Audio.AudioSampleCallback = null;
+let speeds: PlaybackSpeeds = { tracks: {}, folders: {} };
+
+const listeners: { [E in keyof PlayerEvents]: Set<Listener<E>> } = {
+  change: new Set(),
+  trackChanged: new Set(),
+  ended: new Set(),
+  seeked: new Set(),
+  error: new Set(),
+};
+
+export const addListener = <E extends keyof PlayerEvents>(event: E, listener: Listener<E>) => {
+  listeners[event].add(listener);
+  return () => {
+    listeners[event].delete(listener);
+  };
+};
+
+const emit = <E extends keyof PlayerEvents>(event: E, payload: PlayerEvents[E]) => {
+  listeners[event].forEach((listener) => listener(payload));
+};
+
+const setState = (patch: Partial<PlayerState>) => {
+  state = { ...state, ...patch };
+  emit('change', state);
+};
+
+export const getState = () => state;
+
+const persistQueue = () =>
+  saveQueue({
+    trackIds: state.queue.map((track) => track.id),
+    currentIndex: state.currentIndex,
+    shuffleOrder,
+    history,
+  });
+
+const setQueue = (queue: Track[], currentIndex: number) => {
+  setState({ queue, currentIndex });
+  persistQueue();
+};
+
+export const checkpoint = () => {
+  if (!state.currentTrack) return;
+  lastCheckpointAt = Date.now();
+  saveCheckpoint({
+    trackId: state.currentTrack.id,
+    positionMillis: state.positionMillis,
+    source: state.source,
+    savedAt: lastCheckpointAt,
+  });
+  if (state.spokenWord) saveResumePosition(state.currentTrack.id, state.positionMillis);
+};
+
+const otherIndices = (current: number) =>
+  state.queue.map((_, index) => index).filter((index) => index !== current);
+
+const resetShuffle = (current: number) => {
+  history = [];
+  shuffleOrder = state.shuffle ? shuffleIndices(otherIndices(current)) : [];
+};
+
+const remap = (map: (index: number) => number) => {
+  shuffleOrder = remapIndices(shuffleOrder, map);
+  history = remapIndices(history, map);
+};
+
+const nextIndex = () => {
+  if (state.shuffle) {
+    if (shuffleOrder.length === 0 && state.repeat === 'all' && state.queue.length > 0) {
+      const others = otherIndices(state.currentIndex);
+      shuffleOrder = others.length > 0 ? shuffleIndices(others) : [Math.max(state.currentIndex, 0)];
+    }
+    return shuffleOrder.length > 0 ? shuffleOrder[0] : -1;
+  }
+  if (state.currentIndex < state.queue.length - 1) return state.currentIndex + 1;
+  return state.repeat === 'all' && state.queue.length > 0 ? 0 : -1;
+};
+
+const ensureAudioMode = async () => {
+  if (audioModeReady) return;
+  await Audio.setAudioModeAsync({
+    allowsRecordingIOS: false,
+    staysActiveInBackground: true,
+    playsInSilentModeIOS: true,
+    shouldDuckAndroid: true,
+    playThroughEarpieceAndroid: false,
+  });
+  audioModeReady = true;
+};
+
+// Only the current sound feeds the visualizer; one fading out under a crossfade is already detached.
+const attachSampleListener = (target: Audio.Sound, listener: Audio.AudioSampleCallback) => {
+  try {
+    target.setOnAudioSampleReceived(listener);
+  } catch (error) {
+    console.error('Failed to set audio sample listener', error);
+  }
+};
+
+const unloadSound = async (target: Audio.Sound | null) => {
+  if (!target) return;
+  target.setOnPlaybackStatusUpdate(null);
+  try {
+    await target.unloadAsync();
+  } catch (error) {
+    console.error('Failed to unload sound', error);
+  }
+};
+
+const unloadCurrent = async () => {
+  const previous = sound;
+  sound = null;
+  await unloadSound(previous);
+};
+
+const rateStatus = (track: Track) => ({
+  rate: speedFor(speeds, track),
+  shouldCorrectPitch: state.pitchCorrection,
+  pitchCorrectionQuality: Audio.PitchCorrectionQuality.High,
+});
+
+const speedState = (track: Track) => ({ rate: speedFor(speeds, track), rateScope: scopeOf(speeds, track) });
+
+// The user-facing volume (only ever lowered by the sleep timer) scaled by the track's ReplayGain.
+const levelOf = (track: Track | null | undefined) => volume * replayGainFor(track, state);
+
+const discardPreloaded = async () => {
+  const stale = preloaded;
+  preloaded = null;
+  await unloadSound(stale?.sound ?? null);
+};
+
+// Queue edits can move or remove the preloaded track, so it is only used if it is still the one at `index`.
+const takePreloaded = (index: number) => {
+  const ready = preloaded;
+  if (!ready || ready.index !== index || ready.trackId !== state.queue[index]?.id) return null;
+  preloaded = null;
+  return ready.sound;
+};
+
+const preloadNext = async () => {
+  const index = nextIndex();
+  const track = state.queue[index];
+  if (isPreloading || !track || (preloaded?.index === index && preloaded.trackId === track.id)) return;
+  isPreloading = true;
+  const token = loadToken;
+  try {
+    await discardPreloaded();
+    const { sound: created } = await Audio.Sound.createAsync(
+      { uri: track.uri },
+      { shouldPlay: false, volume: levelOf(track), ...rateStatus(track), progressUpdateIntervalMillis: 500 }
+    );
+    if (token !== loadToken) await created.unloadAsync();
+    else preloaded = { index, trackId: track.id, sound: created };
+  } catch (error) {
+    console.error('Failed to preload next track', error);
+  } finally {
+    isPreloading = false;
+  }
+};
+
+const endCrossfade = () => {
+  const finished = crossfade;
+  crossfade = null;
+  if (!finished) return;
+  clearInterval(finished.timer);
+  if (finished.to === sound) finished.to.setVolumeAsync(levelOf(state.currentTrack)).catch(() => undefined);
+  unloadSound(finished.from);
+};
+
+// Equal-power curve, so the overall loudness holds steady through the middle of the fade.
+const startCrossfade = (from: Audio.Sound, to: Audio.Sound, fromGain: number, toGain: number, millis: number) => {
+  const startedAt = Date.now();
+  const step = () => {
+    const progress = Math.min(1, (Date.now() - startedAt) / millis);
+    from.setVolumeAsync(volume * fromGain * Math.cos((progress * Math.PI) / 2)).catch(() => undefined);
+    to.setVolumeAsync(volume * toGain * Math.sin((progress * Math.PI) / 2)).catch(() => undefined);
+    if (progress >= 1) endCrossfade();
+  };
+  crossfade = { from, to, fromGain, toGain, timer: setInterval(step, FADE_STEP_MILLIS) };
+};
+
+const crossfadeMillis = (from: Track | null, to: Track | undefined) => {
+  if (!from || !to || state.crossfadeSeconds <= 0) return 0;
+  if (state.gaplessAlbums && !!from.album && albumKey(from) === albumKey(to)) return 0;
+  return state.crossfadeSeconds * 1000;
+};
+
+// Runs on every status update of the playing track: loads the next one ahead of time, and with crossfade on, starts
+// it early so the two overlap.
+const prepareTransition = (status: AVPlaybackStatusSuccess) => {
+  if (!status.isPlaying || !status.durationMillis || state.repeat === 'one') return;
+  const remaining = (status.durationMillis - status.positionMillis) / state.rate;
+  const index = nextIndex();
+  const fadeMillis = crossfadeMillis(state.currentTrack, state.queue[index]);
+  if (remaining <= PRELOAD_AHEAD_MILLIS + fadeMillis) preloadNext();
+  if (fadeMillis > 0 && remaining <= fadeMillis && !pauseAfterCurrent && preloaded?.index === index) {
+    if (state.currentTrack) emit('ended', state.currentTrack);
+    advanceTo(index, true, Math.max(remaining, FADE_STEP_MILLIS)).catch((error) =>
+      console.error('Failed to start crossfade', error)
+    );
+  }
+};
+
+// Commands are handed to buttons and media controls that don't await them, so their failures are logged here
+// instead of surfacing as unhandled rejections.
+const command =
+  <A extends unknown[]>(description: string, run: (...args: A) => Promise<void>) =>
+  async (...args: A) => {
+    try {
+      await run(...args);
+    } catch (error) {
+      console.error(`Failed to ${description}`, error);
+    }
+  };
+
+// Called from the status callback without being awaited, so failures are handled here.
+const handleFinish = async () => {
+  const shouldPlay = !pauseAfterCurrent;
+  pauseAfterCurrent = false;
+  if (state.currentTrack) emit('ended', state.currentTrack);
+  try {
+    if (state.repeat === 'one' && sound) {
+      if (shouldPlay) await sound.replayAsync();
+      else await sound.stopAsync();
+      emit('seeked', 0);
+      return;
+    }
+    const index = nextIndex();
+    if (index >= 0) await advanceTo(index, shouldPlay);
+    else await stop();
+  } catch (error) {
+    console.error('Failed to move on from the finished track', error);
+    setState({ playbackState: 'idle' });
+    emit('error', error);
+  }
+};
+
+const handleStatus = (token: number) => (status: AVPlaybackStatus) => {
+  if (token !== loadToken || !status.isLoaded) return;
+  if (status.didJustFinish) {
+    handleFinish();
+    return;
+  }
+  setState({
+    positionMillis: status.positionMillis,
+    durationMillis: status.durationMillis ?? state.durationMillis,
+    playbackState: status.shouldPlay ? 'playing' : 'paused',
+  });
+  if (status.isPlaying && Date.now() - lastCheckpointAt >= CHECKPOINT_INTERVAL_MILLIS) checkpoint();
+  prepareTransition(status);
+};
+
+// With `fadeMillis`, the outgoing sound keeps playing and fades out under the new one instead of stopping.
+const loadAt = async (index: number, positionMillis = 0, shouldPlay = true, fadeMillis = 0) => {
+  const track = state.queue[index];
+  if (!track) return;
+  const token = ++loadToken;
+  const outgoing = state.currentTrack;
+  endCrossfade();
+  if (outgoing && state.spokenWord && outgoing.id !== track.id) {
+    saveResumePosition(outgoing.id, state.positionMillis);
+  }
+  const spokenWord = isSpokenWord(track, state);
+  if (spokenWord && positionMillis === 0) {
+    positionMillis = await getResumePosition(track);
+    if (token !== loadToken) return;
+  }
+
+  setState({
+    currentTrack: track,
+    currentIndex: index,
+    positionMillis,
+    durationMillis: (track.duration || 0) * 1000,
+    playbackState: 'loading',
+    spokenWord,
+    ...speedState(track),
+  });
+  persistQueue();
+  checkpoint();
+  emit('trackChanged', track);
+
+  const previous = sound;
+  sound = null;
+  previous?.setOnPlaybackStatusUpdate(null);
+  if (previous && sampleListener) attachSampleListener(previous, null);
+  try {
+    let created: Audio.Sound;
+    const ready = takePreloaded(index);
+    if (ready) {
+      // Start the new sound before letting go of the old one, so there is no gap between them.
+      await ready.setStatusAsync({
+        shouldPlay,
+        volume: fadeMillis > 0 ? 0 : levelOf(track),
+        ...rateStatus(track),
+        ...(positionMillis > 0 ? { positionMillis } : {}),
+      });
+      created = ready;
+      if (fadeMillis > 0 && previous) {
+        startCrossfade(previous, created, replayGainFor(outgoing, state), replayGainFor(track, state), fadeMillis);
+      } else {
+        await unloadSound(previous);
+      }
+    } else {
+      await unloadSound(previous);
+      await discardPreloaded();
+      await ensureAudioMode();
+      ({ sound: created } = await Audio.Sound.createAsync(
+        { uri: track.uri },
+        { shouldPlay, positionMillis, volume: levelOf(track), ...rateStatus(track), progressUpdateIntervalMillis: 500 }
+      ));
+    }
+    if (token !== loadToken) {
+      await created.unloadAsync();
+      return;
+    }
+    sound = created;
+    created.setOnPlaybackStatusUpdate(handleStatus(token));
+    if (sampleListener) attachSampleListener(created, sampleListener);
+  } catch (error) {
+    if (token !== loadToken) return;
+    console.error('Failed to play sound', error);
+    setState({ playbackState: 'idle' });
+    emit('error', error);
+  }
+};
+
+const advanceTo = async (index: number, shouldPlay = true, fadeMillis = 0) => {
+  if (state.shuffle && state.currentIndex >= 0 && state.currentIndex !== index) history.push(state.currentIndex);
+  shuffleOrder = shuffleOrder.filter((queued) => queued !== index);
+  await loadAt(index, 0, shouldPlay, fadeMillis);
+};
+
+export const play = async (queue: Track[], index: number, source: PlaybackSource | null = null) => {
+  if (!queue[index]) return;
+  setState({ queue, source });
+  resetShuffle(index);
+  await loadAt(index);
+};
+
+export const pause = command('pause', async () => {
+  if (!sound) return;
+  endCrossfade();
+  await sound.pauseAsync();
+  setState({ playbackState: 'paused' });
+  checkpoint();
+});
+
+export const resume = command('resume', async () => {
+  if (!sound) {
+    if (state.queue[state.currentIndex]) {
+      await loadAt(state.currentIndex, state.currentTrack ? state.positionMillis : 0);
+    }
+    return;
+  }
+  await sound.playAsync();
+  setState({ playbackState: 'playing' });
+});
+
+export const togglePlayPause = command('toggle playback', async () => {
+  if (state.playbackState === 'playing') await pause();
+  else await resume();
+});
+
+export const next = command('skip to the next track', async () => {
+  const index = nextIndex();
+  if (index >= 0) await advanceTo(index);
+});
+
+export const previous = command('go back to the previous track', async () => {
+  if (state.queue.length === 0) return;
+  if (state.shuffle) {
+    const index = history.pop();
+    if (index === undefined) return;
+    if (state.currentIndex >= 0) shuffleOrder.unshift(state.currentIndex);
+    await loadAt(index);
+  } else if (state.currentIndex > 0) {
+    await loadAt(state.currentIndex - 1);
+  } else if (state.repeat === 'all') {
+    await loadAt(state.queue.length - 1);
+  }
+});
+
+export const seekTo = command('seek', async (positionMillis: number) => {
+  if (!state.currentTrack) return;
+  if (sound) await sound.setPositionAsync(Math.max(0, positionMillis));
+  setState({ positionMillis });
+  emit('seeked', positionMillis);
+  checkpoint();
+});
+
+export const skipBy = async (deltaMillis: number) => {
+  const limit = state.durationMillis > 0 ? state.durationMillis : Number.MAX_SAFE_INTEGER;
+  await seekTo(Math.min(limit, Math.max(0, state.positionMillis + deltaMillis)));
+};
+
+export const stop = command('stop playback', async () => {
+  loadToken++;
+  endCrossfade();
+  await unloadCurrent();
+  await discardPreloaded();
+  setState({
+    currentTrack: null,
+    currentIndex: -1,
+    positionMillis: 0,
+    durationMillis: 0,
+    playbackState: 'idle',
+  });
+  persistQueue();
+  clearCheckpoint();
+  emit('trackChanged', null);
+});
+
+// Brings back the last session paused: the sound itself is only created once playback is resumed.
+export const restore = async (library: Track[]) => {
+  const [saved, preferences, lastCheckpoint, savedSpeeds] = await Promise.all([
+    loadQueue(),
+    loadPreferences(),
+    loadCheckpoint(),
+    loadPlaybackSpeeds(),
+  ]);
+  speeds = savedSpeeds;
+  setState({
+    shuffle: preferences.shuffle,
+    repeat: preferences.repeat,
+    crossfadeSeconds: preferences.crossfadeSeconds,
+    gaplessAlbums: preferences.gaplessAlbums,
+    replayGainMode: preferences.replayGainMode,
+    replayGainPreampDb: preferences.replayGainPreampDb,
+    replayGainFallbackDb: preferences.replayGainFallbackDb,
+    preventClipping: preferences.preventClipping,
+    pitchCorrection: preferences.pitchCorrection,
+    spokenWordMinutes: preferences.spokenWordMinutes,
+    spokenWordFolders: preferences.spokenWordFolders,
+  });
+  if (!saved || !Array.isArray(saved.trackIds) || state.queue.length > 0) return;
+  const byId = new Map(library.map((track) => [track.id, track]));
+  const queue = saved.trackIds.flatMap((id) => byId.get(id) ?? []);
+  // Saved positions shift down past any tracks that are no longer in the library.
+  let kept = 0;
+  const positions = saved.trackIds.map((id) => (byId.has(id) ? kept++ : -1));
+  const moved = (index: number) => positions[index] ?? -1;
+  shuffleOrder = remapIndices(saved.shuffleOrder || [], moved);
+  history = remapIndices(saved.history || [], moved);
+  const currentIndex = moved(saved.currentIndex);
+  setState({ queue, currentIndex: currentIndex === -1 ? Math.min(0, queue.length - 1) : currentIndex });
+  if (!lastCheckpoint) return;
+
+  const index =
+    queue[state.currentIndex]?.id === lastCheckpoint.trackId
+      ? state.currentIndex
+      : queue.findIndex((track) => track.id === lastCheckpoint.trackId);
+  const track = queue[index];
+  if (!track) return;
+  setState({
+    currentTrack: track,
+    currentIndex: index,
+    positionMillis: lastCheckpoint.positionMillis,
+    durationMillis: (track.duration || 0) * 1000,
+    spokenWord: isSpokenWord(track, state),
+    ...speedState(track),
+    playbackState: 'paused',
+    source: lastCheckpoint.source,
+  });
+  emit('trackChanged', track);
+};
+
+// 0 to 1; kept across tracks, so a fade carries on into the next one.
+export const setVolume = async (value: number) => {
+  volume = Math.min(1, Math.max(0, value));
+  try {
+    await sound?.setVolumeAsync(levelOf(state.currentTrack));
+  } catch (error) {
+    console.error('Failed to set volume', error);
+  }
+};
+
+// Sample callbacks copy PCM across the JS bridge for every buffer, so they are only attached while someone listens.
+export const setAudioSampleListener = (listener: Audio.AudioSampleCallback) => {
+  sampleListener = listener;
+  if (sound) attachSampleListener(sound, listener);
+};
+
+export const setPauseAfterCurrent = (value: boolean) => {
+  pauseAfterCurrent = value;
+};
+
+export const setShuffle = (shuffle: boolean) => {
+  setState({ shuffle });
+  resetShuffle(state.currentIndex);
+  persistQueue();
+  savePreferences({ shuffle });
+};
+
+export const setRepeat = (repeat: RepeatMode) => {
+  setState({ repeat });
+  savePreferences({ repeat });
+};
+
+export const setCrossfade = (seconds: number) => {
+  const crossfadeSeconds = Math.min(MAX_CROSSFADE_SECONDS, Math.max(0, Math.round(seconds)));
+  setState({ crossfadeSeconds });
+  savePreferences({ crossfadeSeconds });
+};
+
+export const setGaplessAlbums = (gaplessAlbums: boolean) => {
+  setState({ gaplessAlbums });
+  savePreferences({ gaplessAlbums });
+};
+
+export const setReplayGain = async (patch: Partial<ReplayGainSettings>) => {
+  setState(patch);
+  savePreferences(patch);
+  if (crossfade) return;
+  try {
+    await sound?.setVolumeAsync(levelOf(state.currentTrack));
+  } catch (error) {
+    console.error('Failed to set volume', error);
+  }
+};
+
+const applyRate = async () => {
+  try {
+    await sound?.setRateAsync(state.rate, state.pitchCorrection, Audio.PitchCorrectionQuality.High);
+  } catch (error) {
+    console.error('Failed to set playback speed', error);
+  }
+};
+
+// Remembered for the current track, or for every track in its folder.
+export const setPlaybackSpeed = async (speed: number, scope: SpeedScope = 'track') => {
+  const track = state.currentTrack;
+  if (!track) return;
+  speeds = withSpeed(speeds, track, clampSpeed(speed), scope);
+  savePlaybackSpeeds(speeds);
+  setState(speedState(track));
+  await applyRate();
+};
+
+// The speed a track will play at, whether or not it is the current one.
+export const speedOf = (track: Track) => speedFor(speeds, track);
+
+export const setPitchCorrection = async (pitchCorrection: boolean) => {
+  setState({ pitchCorrection });
+  savePreferences({ pitchCorrection });
+  await applyRate();
+};
+
+const setSpokenWordSettings = (patch: Partial<SpokenWordSettings>) => {
+  const settings = { ...state, ...patch };
+  setState({ ...patch, spokenWord: !!state.currentTrack && isSpokenWord(state.currentTrack, settings) });
+  savePreferences(patch);
+};
+
+export const setSpokenWordMinutes = (minutes: number) =>
+  setSpokenWordSettings({ spokenWordMinutes: Math.max(0, Math.round(minutes)) });
+
+export const setSpokenWordFolders = (spokenWordFolders: string[]) => setSpokenWordSettings({ spokenWordFolders });
+
+export const setSpokenWordFolder = (folder: string, enabled: boolean) => {
+  const others = state.spokenWordFolders.filter((path) => path !== folder);
+  setSpokenWordFolders(enabled ? [...others, folder] : others);
+};
+
+export const cycleRepeat = () => {
+  const modes: RepeatMode[] = ['off', 'all', 'one'];
+  setRepeat(modes[(modes.indexOf(state.repeat) + 1) % modes.length]);
+};
+
+export const skipTo = async (index: number) => {
+  if (!state.queue[index]) return;
+  await advanceTo(index);
+};
+
+export const playNext = async (tracks: Track[]) => {
+  if (tracks.length === 0) return;
+  if (state.queue.length === 0) {
+    await play(tracks, 0);
+    return;
+  }
+  const position = state.currentIndex + 1;
+  const inserted = tracks.map((_, i) => position + i);
+  remap((index) => (index >= position ? index + tracks.length : index));
+  if (state.shuffle) shuffleOrder = [...inserted, ...shuffleOrder];
+  setQueue(insertAt(state.queue, position, tracks), state.currentIndex);
+};
+
+export const addToQueue = (tracks: Track[]) => {
+  if (tracks.length === 0) return;
+  if (state.shuffle) {
+    tracks.forEach((_, i) => {
+      const at = Math.floor(Math.random() * (shuffleOrder.length + 1));
+      shuffleOrder.splice(at, 0, state.queue.length + i);
+    });
+  }
+  setQueue([...state.queue, ...tracks], state.currentIndex);
+};
+
+export const moveInQueue = (from: number, to: number) => {
+  if (from === to || !state.queue[from] || !state.queue[to]) return;
+  remap((index) => indexAfterMove(index, from, to));
+  setQueue(moveItem(state.queue, from, to), indexAfterMove(state.currentIndex, from, to));
+};
+
+export const removeFromQueue = async (index: number) => {
+  if (!state.queue[index]) return;
+  const queue = removeAt(state.queue, index);
+  remap((queued) => (queued === index ? -1 : queued > index ? queued - 1 : queued));
+  if (index < state.currentIndex) {
+    setQueue(queue, state.currentIndex - 1);
+    return;
+  }
+  if (index > state.currentIndex) {
+    setQueue(queue, state.currentIndex);
+    return;
+  }
+  const following = state.shuffle ? (shuffleOrder[0] ?? -1) : queue[index] ? index : -1;
+  if (state.currentTrack && following >= 0) {
+    setQueue(queue, following);
+    shuffleOrder = shuffleOrder.filter((queued) => queued !== following);
+    await loadAt(following);
+  } else {
+    setQueue(queue, -1);
+    await stop();
+  }
+};
+
+export const clearQueue = () => {
+  const current = state.currentTrack;
+  shuffleOrder = [];
+  history = [];
+  setQueue(current ? [current] : [], current ? 0 : -1);
+};
@@ -0,0 +1,234 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Playlist, Track } from '../types';
+import { decodeUri } from '../utils/uri';
+import { buildSearchIndex, normalizeText, search } from './search';
+
+export type PlaylistFileFormat = 'm3u8' | 'pls';
+
+export interface PlaylistFileEntry {
+  path: string;
+  title?: string;
+  artist?: string;
+  durationSeconds?: number;
+}
+
+export interface ParsedPlaylistFile {
+  title?: string;
+  entries: PlaylistFileEntry[];
+}
+
+export interface PlaylistImport {
+  playlist: Playlist;
+  unmatched: PlaylistFileEntry[];
+}
+
+const EXPORT_DIR = `${FileSystem.cacheDirectory}playlists/`;
+
+const FORMATS: Record<PlaylistFileFormat, { mimeType: string; uti: string }> = {
+  m3u8: { mimeType: 'audio/x-mpegurl', uti: 'public.m3u-playlist' },
+  pls: { mimeType: 'audio/x-scpls', uti: 'public.pls-playlist' },
+};
+
+const IMPORT_TYPES = [
+  'audio/x-mpegurl',
+  'audio/mpegurl',
+  'application/x-mpegurl',
+  'application/vnd.apple.mpegurl',
+  'audio/x-scpls',
+  // Many file managers report playlists as plain text or octet streams.
+  'text/plain',
+  'application/octet-stream',
+];
+
+const trackPath = (track: Track) =>
+  track.uri.startsWith('file://') ? decodeUri(track.uri.slice('file://'.length)) : track.uri;
+
+const displayTitle = (track: Track) =>
+  track.artist ? `${track.artist} - ${track.title || track.filename}` : track.title || track.filename;
+
+const durationSeconds = (track: Track) => (track.duration ? Math.round(track.duration) : -1);
+
+export const toM3U8 = (title: string, tracks: Track[]) =>
+  [
+    '#EXTM3U',
+    `#PLAYLIST:${title}`,
+    ...tracks.flatMap((track) => [`#EXTINF:${durationSeconds(track)},${displayTitle(track)}`, trackPath(track)]),
+    '',
+  ].join('\n');
+
+export const toPLS = (tracks: Track[]) =>
+  [
+    '[playlist]',
+    ...tracks.flatMap((track, i) => [
+      `File${i + 1}=${trackPath(track)}`,
+      `Title${i + 1}=${displayTitle(track)}`,
+      `Length${i + 1}=${durationSeconds(track)}`,
+    ]),
+    `NumberOfEntries=${tracks.length}`,
+    'Version=2',
+    '',
+  ].join('\n');
+
+// "#EXTINF" and PLS titles are conventionally "Artist - Title".
+const splitDisplayTitle = (text: string) => {
+  const separator = text.indexOf(' - ');
+  if (separator < 0) return { title: text.trim() || undefined };
+  return { artist: text.slice(0, separator).trim() || undefined, title: text.slice(separator + 3).trim() || undefined };
+};
+
+const parseDuration = (value: string) => {
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+const parseM3U = (lines: string[]): ParsedPlaylistFile => {
+  const entries: PlaylistFileEntry[] = [];
+  let title: string | undefined;
+  let info: Omit<PlaylistFileEntry, 'path'> = {};
+  for (const line of lines) {
+    if (line.startsWith('#PLAYLIST:')) {
+      title = line.slice('#PLAYLIST:'.length).trim() || undefined;
+    } else if (line.startsWith('#EXTINF:')) {
+      const match = /^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/.exec(line);
+      info = match ? { durationSeconds: parseDuration(match[1]), ...splitDisplayTitle(match[2]) } : {};
+    } else if (!line.startsWith('#')) {
+      entries.push({ path: line, ...info });
+      info = {};
+    }
+  }
+  return { title, entries };
+};
+
+const parsePLS = (lines: string[]): ParsedPlaylistFile => {
+  const byNumber = new Map<number, PlaylistFileEntry>();
+  let title: string | undefined;
+  for (const line of lines) {
+    const match = /^(File|Title|Length)(\d+)=(.*)$/i.exec(line);
+    if (!match) {
+      if (/^X-GNOME-Title=/i.test(line)) title = line.slice(line.indexOf('=') + 1).trim() || undefined;
+      continue;
+    }
+    const [, key, number, value] = match;
+    const entry = byNumber.get(Number(number)) || { path: '' };
+    if (key.toLowerCase() === 'file') entry.path = value.trim();
+    else if (key.toLowerCase() === 'title') Object.assign(entry, splitDisplayTitle(value));
+    else entry.durationSeconds = parseDuration(value);
+    byNumber.set(Number(number), entry);
+  }
+  return {
+    title,
+    entries: [...byNumber.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, entry]) => entry)
+      .filter((entry) => entry.path),
+  };
+};
+
+export const parsePlaylistFile = (content: string): ParsedPlaylistFile => {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return lines[0]?.toLowerCase() === '[playlist]' ? parsePLS(lines) : parseM3U(lines);
+};
+
+const normalizePath = (path: string) => {
+  let normalized = path.replace(/\\/g, '/');
+  if (/^file:\/\//i.test(normalized)) normalized = normalized.slice('file://'.length);
+  return decodeUri(normalized).replace(/^\.\//, '').toLowerCase();
+};
+
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const withoutExtension = (filename: string) => filename.replace(/\.[^.]+$/, '');
+
+const DURATION_TOLERANCE_SECONDS = 3;
+
+const wordsOf = (text: string) => normalizeText(text).split(' ').filter(Boolean);
+
+const containsWords = (text: string, tokens: string[]) => {
+  const words = wordsOf(text);
+  return tokens.every((token) => words.some((word) => word.startsWith(token)));
+};
+
+// Search ranks partial and misspelt matches too, so a result is only taken when every word of the entry's title
+// (and artist, when both sides have one) is there in full or as a prefix, and the "#EXTINF" length agrees.
+const isCloseMatch = (entry: PlaylistFileEntry, title: string, track: Track) =>
+  containsWords(track.title || withoutExtension(track.filename), wordsOf(title)) &&
+  (!entry.artist || !track.artist || containsWords(track.artist, wordsOf(entry.artist))) &&
+  (entry.durationSeconds === undefined ||
+    !track.duration ||
+    Math.abs(track.duration - entry.durationSeconds) <= DURATION_TOLERANCE_SECONDS);
+
+export const describeEntry = (entry: PlaylistFileEntry) =>
+  entry.title ? [entry.artist, entry.title].filter(Boolean).join(' - ') : basename(entry.path.replace(/\\/g, '/'));
+
+// Entries are matched by full or relative path first, then by filename, then by a fuzzy title/artist search.
+export const createEntryResolver = (tracks: Track[]) => {
+  const paths = tracks.map((track) => [normalizePath(trackPath(track)), track] as const);
+  const byPath = new Map(paths);
+  const byFilename = new Map<string, Track>();
+  for (const track of tracks) {
+    const key = track.filename.toLowerCase();
+    if (!byFilename.has(key)) byFilename.set(key, track);
+  }
+  const index = buildSearchIndex(tracks);
+
+  return (entry: PlaylistFileEntry): Track | undefined => {
+    const path = normalizePath(entry.path);
+    const filename = basename(path);
+    const title = entry.title || withoutExtension(filename);
+    return (
+      byPath.get(path) ||
+      paths.find(([candidate]) => candidate.endsWith(`/${path}`))?.[1] ||
+      byFilename.get(filename) ||
+      search(index, [entry.artist, title].filter(Boolean).join(' ')).songs.find((candidate) =>
+        isCloseMatch(entry, title, candidate)
+      )
+    );
+  };
+};
+
+export const resolveEntries = (entries: PlaylistFileEntry[], tracks: Track[]) => {
+  const resolve = createEntryResolver(tracks);
+  const matched: Track[] = [];
+  const unmatched: PlaylistFileEntry[] = [];
+  for (const entry of entries) {
+    const track = resolve(entry);
+    if (track) matched.push(track);
+    else unmatched.push(entry);
+  }
+  return { matched, unmatched };
+};
+
+export const exportPlaylist = async (playlist: Playlist, tracks: Track[], format: PlaylistFileFormat) => {
+  await FileSystem.makeDirectoryAsync(EXPORT_DIR, { intermediates: true }).catch(() => undefined);
+  const path = `${EXPORT_DIR}${playlist.title.replace(/[^\w\- ]+/g, '_').trim() || 'playlist'}.${format}`;
+  await FileSystem.writeAsStringAsync(path, format === 'pls' ? toPLS(tracks) : toM3U8(playlist.title, tracks));
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  await Sharing.shareAsync(path, {
+    mimeType: FORMATS[format].mimeType,
+    UTI: FORMATS[format].uti,
+    dialogTitle: `Export ${playlist.title}`,
+  });
+};
+
+// Returns null when the user cancels the picker.
+export const importPlaylist = async (tracks: Track[]): Promise<PlaylistImport | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: IMPORT_TYPES, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  const file = result.assets[0];
+  const parsed = parsePlaylistFile(await FileSystem.readAsStringAsync(file.uri));
+  const { matched, unmatched } = resolveEntries(parsed.entries, tracks);
+  return {
+    playlist: {
+      id: Date.now().toString(),
+      title: parsed.title || withoutExtension(file.name) || 'Imported Playlist',
+      trackIds: [...new Set(matched.map((track) => track.id))],
+    },
+    unmatched,
+  };
+};
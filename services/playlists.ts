@@ -0,0 +1,90 @@
+import { Playlist, Track, TrackStats } from '../types';
+import { isObject } from '../utils/guards';
+import { moveItem } from './queue';
+import { evaluateRules, isSmartRules } from './smartPlaylists';
+import { createStore } from './storage';
+
+const PLAYLISTS_VERSION = 2;
+
+// Version 1 was the original unversioned blob that embedded a full copy of every track.
+interface PlaylistV1 {
+  id: string;
+  title: string;
+  tracks: { id: string }[];
+}
+
+const isPlaylist = (value: unknown): value is Playlist =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  Array.isArray(value.trackIds) &&
+  value.trackIds.every((id: unknown) => typeof id === 'string') &&
+  (value.rules === undefined || isSmartRules(value.rules));
+
+const isPlaylistV1 = (value: unknown): value is PlaylistV1 =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  Array.isArray(value.tracks) &&
+  value.tracks.every((track: unknown) => isObject(track) && typeof track.id === 'string');
+
+const playlistStore = createStore<Playlist[]>({
+  key: 'playlists',
+  version: PLAYLISTS_VERSION,
+  defaultValue: [],
+  migrations: {
+    // Anything that isn't a version 1 list is passed through untouched and then fails validation.
+    1: (data) =>
+      Array.isArray(data) && data.every(isPlaylistV1)
+        ? data.map(({ id, title, tracks }) => ({ id, title, trackIds: tracks.map((track) => track.id) }))
+        : data,
+  },
+  validate: (data): data is Playlist[] => Array.isArray(data) && data.every(isPlaylist),
+});
+
+export const loadPlaylists = async (): Promise<Playlist[]> => {
+  try {
+    return await playlistStore.load();
+  } catch (error) {
+    console.error('Failed to load playlists', error);
+    return [];
+  }
+};
+
+export const savePlaylists = async (playlists: Playlist[]) => {
+  try {
+    await playlistStore.save(playlists);
+    return true;
+  } catch (error) {
+    console.error('Failed to save playlists', error);
+    return false;
+  }
+};
+
+// Ids whose files have left the library are skipped rather than removed, so they come back if the file does.
+export const playlistTracks = (playlist: Playlist, tracksById: Map<string, Track>) =>
+  playlist.trackIds.flatMap((id) => tracksById.get(id) || []);
+
+// Smart playlists are worked out from the whole library each time, so they follow it as it changes.
+export const resolvePlaylistTracks = (
+  playlist: Playlist,
+  tracks: Track[],
+  tracksById: Map<string, Track>,
+  stats?: Map<string, TrackStats>
+) => (playlist.rules ? evaluateRules(playlist.rules, tracks, stats) : playlistTracks(playlist, tracksById));
+
+export const addTracks = (playlist: Playlist, trackIds: string[]): Playlist => {
+  const known = new Set(playlist.trackIds);
+  return { ...playlist, trackIds: [...playlist.trackIds, ...new Set(trackIds.filter((id) => !known.has(id)))] };
+};
+
+export const removeTracks = (playlist: Playlist, trackIds: string[]): Playlist => {
+  const removed = new Set(trackIds);
+  return { ...playlist, trackIds: playlist.trackIds.filter((id) => !removed.has(id)) };
+};
+
+// `from` and `to` are positions in the list as shown, which leaves out ids that aren't in the library.
+export const moveTrack = (playlist: Playlist, tracksById: Map<string, Track>, from: number, to: number): Playlist => {
+  const shown = playlist.trackIds.flatMap((id, index) => (tracksById.has(id) ? [index] : []));
+  return { ...playlist, trackIds: moveItem(playlist.trackIds, shown[from], shown[to]) };
+};
@@ -0,0 +1,72 @@
+import { isObject } from '../utils/guards';
+import { createStore } from './storage';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export type ReplayGainMode = 'off' | 'track' | 'album';
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+export interface Preferences {
+  shuffle: boolean;
+  repeat: RepeatMode;
+  crossfadeSeconds: number;
+  // Consecutive tracks from one album play back to back even when crossfade is on, so live albums and mixes flow.
+  gaplessAlbums: boolean;
+  replayGainMode: ReplayGainMode;
+  replayGainPreampDb: number;
+  // Applied to tracks without ReplayGain tags, so they sit near tagged ones instead of standing out.
+  replayGainFallbackDb: number;
+  preventClipping: boolean;
+  // Keeps voices at their natural pitch when playback is sped up or slowed down.
+  pitchCorrection: boolean;
+  // Files at least this long (0 turns the rule off) and files under these folders play as audiobooks or podcasts.
+  spokenWordMinutes: number;
+  spokenWordFolders: string[];
+}
+
+export const defaultPreferences: Preferences = {
+  shuffle: false,
+  repeat: 'off',
+  crossfadeSeconds: 0,
+  gaplessAlbums: true,
+  replayGainMode: 'off',
+  replayGainPreampDb: 0,
+  replayGainFallbackDb: -6,
+  preventClipping: true,
+  pitchCorrection: true,
+  spokenWordMinutes: 30,
+  spokenWordFolders: [],
+};
+
+// Missing keys are filled from the defaults on load, so adding a preference doesn't need a new version.
+const preferenceStore = createStore<Partial<Preferences>>({
+  key: 'preferences',
+  version: 1,
+  defaultValue: {},
+  validate: (data): data is Partial<Preferences> => isObject(data),
+});
+
+export const loadPreferences = async (): Promise<Preferences> => {
+  try {
+    return { ...defaultPreferences, ...(await preferenceStore.load()) };
+  } catch (error) {
+    console.error('Failed to load preferences', error);
+    return defaultPreferences;
+  }
+};
+
+// Saves are chained so two quick patches can't read the same stale copy.
+let pending: Promise<void> = Promise.resolve();
+
+export const savePreferences = (patch: Partial<Preferences>) => {
+  pending = pending.then(async () => {
+    try {
+      const current = await loadPreferences();
+      await preferenceStore.save({ ...current, ...patch });
+    } catch (error) {
+      console.error('Failed to save preferences', error);
+    }
+  });
+  return pending;
+};
@@ -0,0 +1,66 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Track } from '../types';
+
+const QUEUE_KEY = 'queue';
+
+// Only ids are stored; the tracks themselves are looked up in the library when the queue is restored, so edits
+// and removals made since the last session are picked up.
+export interface SavedQueue {
+  trackIds: string[];
+  currentIndex: number;
+  shuffleOrder?: number[];
+  history?: number[];
+}
+
+export const insertAt = (queue: Track[], position: number, tracks: Track[]) => [
+  ...queue.slice(0, position),
+  ...tracks,
+  ...queue.slice(position),
+];
+
+export const moveItem = <T>(items: T[], from: number, to: number) => {
+  const updated = [...items];
+  const [moved] = updated.splice(from, 1);
+  updated.splice(to, 0, moved);
+  return updated;
+};
+
+export const removeAt = (queue: Track[], index: number) => queue.filter((_, i) => i !== index);
+
+export const indexAfterMove = (current: number, from: number, to: number) => {
+  if (current === from) return to;
+  if (from < current && to >= current) return current - 1;
+  if (from > current && to <= current) return current + 1;
+  return current;
+};
+
+export const shuffleIndices = (indices: number[]) => {
+  const shuffled = [...indices];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Applies a queue edit to a list of queue positions; `map` returns -1 for positions that no longer exist.
+export const remapIndices = (indices: number[], map: (index: number) => number) =>
+  indices.map(map).filter((index) => index >= 0);
+
+export const loadQueue = async (): Promise<SavedQueue | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(QUEUE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to load queue', error);
+    return null;
+  }
+};
+
+export const saveQueue = async (queue: SavedQueue) => {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Failed to save queue', error);
+  }
+};
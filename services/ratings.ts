@@ -0,0 +1,106 @@
+import { Playlist, Ratings, Track, TrackRating, TrackStats } from '../types';
+import { isObject } from '../utils/guards';
+import { EMPTY_STATS } from './smartPlaylists';
+import { createStore } from './storage';
+
+export const MAX_RATING = 5;
+
+// Liked Songs is listed with the playlists but never stored with them; its tracks are whatever has a heart.
+export const LIKED_SONGS: Playlist = { id: 'liked-songs', title: 'Liked Songs', trackIds: [] };
+
+export type RatingFilter = 'all' | 'liked' | 'rated' | 'fourStars';
+
+export const RATING_FILTERS: Record<RatingFilter, { label: string; matches: (rating?: TrackRating) => boolean }> = {
+  all: { label: 'All songs', matches: () => true },
+  liked: { label: '♥ Liked', matches: (rating) => rating?.likedAt !== undefined },
+  rated: { label: '★ Rated', matches: (rating) => (rating?.rating || 0) > 0 },
+  fourStars: { label: '★★★★ and up', matches: (rating) => (rating?.rating || 0) >= 4 },
+};
+
+const isTrackRating = (value: unknown): value is TrackRating =>
+  isObject(value) &&
+  typeof value.rating === 'number' &&
+  Number.isInteger(value.rating) &&
+  value.rating >= 0 &&
+  value.rating <= MAX_RATING &&
+  (value.likedAt === undefined || typeof value.likedAt === 'number');
+
+export const isRatings = (value: unknown): value is Ratings =>
+  isObject(value) && Object.values(value).every(isTrackRating);
+
+const ratingStore = createStore<Ratings>({
+  key: 'ratings',
+  version: 1,
+  defaultValue: {},
+  validate: isRatings,
+});
+
+export const loadRatings = async (): Promise<Ratings> => {
+  try {
+    return await ratingStore.load();
+  } catch (error) {
+    console.error('Failed to load ratings', error);
+    return {};
+  }
+};
+
+export const saveRatings = async (ratings: Ratings) => {
+  try {
+    await ratingStore.save(ratings);
+    return true;
+  } catch (error) {
+    console.error('Failed to save ratings', error);
+    return false;
+  }
+};
+
+// Tracks that are neither liked nor rated are dropped, so the stored map only holds what the user has set.
+const withRating = (ratings: Ratings, trackId: string, rating: TrackRating): Ratings => {
+  const { [trackId]: _previous, ...rest } = ratings;
+  return rating.rating > 0 || rating.likedAt !== undefined ? { ...rest, [trackId]: rating } : rest;
+};
+
+export const isFavourite = (ratings: Ratings, trackId: string) => ratings[trackId]?.likedAt !== undefined;
+
+export const ratingOf = (ratings: Ratings, trackId: string) => ratings[trackId]?.rating || 0;
+
+// Liking a track that is already liked keeps its place in Liked Songs.
+export const setFavourite = (ratings: Ratings, trackId: string, liked: boolean, now = Date.now()) =>
+  withRating(ratings, trackId, {
+    rating: ratingOf(ratings, trackId),
+    likedAt: liked ? ratings[trackId]?.likedAt ?? now : undefined,
+  });
+
+export const toggleFavourite = (ratings: Ratings, trackId: string, now = Date.now()) =>
+  setFavourite(ratings, trackId, !isFavourite(ratings, trackId), now);
+
+export const setRating = (ratings: Ratings, trackId: string, rating: number) =>
+  withRating(ratings, trackId, {
+    ...ratings[trackId],
+    rating: Math.max(0, Math.min(MAX_RATING, Math.round(rating))),
+  });
+
+// Newest likes first.
+export const likedTracks = (ratings: Ratings, tracks: Track[]) =>
+  tracks
+    .filter((track) => isFavourite(ratings, track.id))
+    .sort((a, b) => (ratings[b.id].likedAt || 0) - (ratings[a.id].likedAt || 0));
+
+export const filterByRating = (tracks: Track[], ratings: Ratings, filter: RatingFilter) =>
+  filter === 'all' ? tracks : tracks.filter((track) => RATING_FILTERS[filter].matches(ratings[track.id]));
+
+// Play counts come from the history log and ratings from their own store; smart playlists and sorting need both.
+export const applyRatings = (stats: Map<string, TrackStats>, ratings: Ratings) => {
+  const merged = new Map(stats);
+  Object.entries(ratings).forEach(([trackId, rating]) =>
+    merged.set(trackId, {
+      ...(stats.get(trackId) || EMPTY_STATS),
+      favourite: rating.likedAt !== undefined,
+      rating: rating.rating,
+    })
+  );
+  return merged;
+};
+
+// Restoring in merge mode keeps what is already set here and only fills in tracks that have no rating yet.
+export const mergeRatings = (current: Ratings, restored: Ratings): Ratings => ({ ...restored, ...current });
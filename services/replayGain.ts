@@ -0,0 +1,40 @@
+import { Track } from '../types';
+import { Preferences, ReplayGainMode } from './preferences';
+
+export type ReplayGainSettings = Pick<
+  Preferences,
+  'replayGainMode' | 'replayGainPreampDb' | 'replayGainFallbackDb' | 'preventClipping'
+>;
+
+export const REPLAY_GAIN_MODES: Record<ReplayGainMode, string> = {
+  off: 'Off',
+  track: 'Track',
+  album: 'Album',
+};
+
+export const PREAMP_RANGE_DB = { min: -12, max: 12 };
+export const FALLBACK_RANGE_DB = { min: -12, max: 0 };
+
+const dbToRatio = (db: number) => Math.pow(10, db / 20);
+
+// Album mode falls back to the track's own gain, and untagged tracks to the fallback, so every track gets a level.
+const gainDbOf = (track: Track, settings: ReplayGainSettings) => {
+  const tagged = settings.replayGainMode === 'album' ? track.albumGain ?? track.trackGain : track.trackGain;
+  return tagged ?? settings.replayGainFallbackDb;
+};
+
+const peakOf = (track: Track, mode: ReplayGainMode) =>
+  mode === 'album' ? track.albumPeak ?? track.trackPeak : track.trackPeak;
+
+// Volume multiplier for a track. A sound can't be played louder than it was recorded, so gains above 0 dB stop at
+// full volume. Lossy files often peak above full scale once decoded, which clipping prevention pulls back even at
+// 0 dB.
+export const replayGainFor = (track: Track | null | undefined, settings: ReplayGainSettings) => {
+  if (!track || settings.replayGainMode === 'off') return 1;
+  let ratio = dbToRatio(gainDbOf(track, settings) + settings.replayGainPreampDb);
+  const peak = peakOf(track, settings.replayGainMode);
+  if (settings.preventClipping && peak && peak > 0) ratio = Math.min(ratio, 1 / peak);
+  return Math.min(1, Math.max(0, ratio));
+};
+
+export const formatDecibels = (db: number) => `${db > 0 ? '+' : ''}${db} dB`;
@@ -0,0 +1,165 @@
+import { Playlist, Track } from '../types';
+import { getAlbums, getArtists, TrackGroup } from './browse';
+
+interface SearchField {
+  text: string;
+  words: string[];
+  weight: number;
+}
+
+interface IndexEntry<T> {
+  item: T;
+  fields: SearchField[];
+}
+
+export interface SearchIndex {
+  songs: IndexEntry<Track>[];
+  artists: IndexEntry<TrackGroup>[];
+  albums: IndexEntry<TrackGroup>[];
+  playlists: IndexEntry<Playlist>[];
+}
+
+export interface SearchResults {
+  songs: Track[];
+  artists: TrackGroup[];
+  albums: TrackGroup[];
+  playlists: Playlist[];
+}
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.85;
+const SUBSTRING_SCORE = 0.6;
+const TYPO_SCORE = 0.5;
+const TYPO_PREFIX_SCORE = 0.4;
+
+// Lowercases, strips accents ("Beyoncé" → "beyonce") and turns punctuation into word breaks.
+export const normalizeText = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const tokenize = (text: string) => normalizeText(text).split(' ').filter(Boolean);
+
+const allowedTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+// Optimal string alignment distance, so a swapped pair of letters counts as one typo.
+// Gives up early and returns limit + 1 once every path is over the limit.
+const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+  }
+  return row[b.length];
+};
+
+const matchWord = (token: string, word: string) => {
+  if (word === token) return EXACT_SCORE;
+  if (word.startsWith(token)) return PREFIX_SCORE;
+  if (token.length >= 2 && word.includes(token)) return SUBSTRING_SCORE;
+  const typos = allowedTypos(token.length);
+  if (typos === 0) return 0;
+  if (editDistance(token, word, typos) <= typos) return TYPO_SCORE;
+  // The last word is often still being typed, so compare against the start of longer words too.
+  if (word.length > token.length && editDistance(token, word.slice(0, token.length), typos) <= typos) {
+    return TYPO_PREFIX_SCORE;
+  }
+  return 0;
+};
+
+// Every query token has to match some field; the score rewards exact words, heavier fields and
+// fields that start with the whole query.
+const scoreEntry = (fields: SearchField[], tokens: string[], query: string) => {
+  let total = 0;
+  for (const token of tokens) {
+    let best = 0;
+    for (const field of fields) {
+      for (const word of field.words) {
+        best = Math.max(best, matchWord(token, word) * field.weight);
+        if (best >= field.weight) break;
+      }
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  const phraseBonus = fields.reduce((bonus, field) => {
+    if (field.text === query) return Math.max(bonus, 0.5 * field.weight);
+    if (field.text.startsWith(query)) return Math.max(bonus, 0.3 * field.weight);
+    return bonus;
+  }, 0);
+  return total / tokens.length + phraseBonus;
+};
+
+const field = (text: string | undefined, weight: number): SearchField => {
+  const normalized = normalizeText(text || '');
+  return { text: normalized, words: normalized.split(' ').filter(Boolean), weight };
+};
+
+const withoutExtension = (filename: string) => filename.replace(/\.[^.]+$/, '');
+
+export const buildSearchIndex = (tracks: Track[], playlists: Playlist[] = []): SearchIndex => ({
+  songs: tracks.map((track) => ({
+    item: track,
+    fields: [
+      field(track.title, 1),
+      field(track.artist, 0.8),
+      field(track.album, 0.6),
+      field(withoutExtension(track.filename), track.title ? 0.4 : 1),
+    ],
+  })),
+  artists: getArtists(tracks)
+    .filter((group) => group.key)
+    .map((group) => ({ item: group, fields: [field(group.name, 1)] })),
+  albums: getAlbums(tracks)
+    .filter((group) => group.tracks[0].album?.trim())
+    .map((group) => ({ item: group, fields: [field(group.name, 1), field(group.subtitle, 0.6)] })),
+  playlists: playlists.map((playlist) => ({ item: playlist, fields: [field(playlist.title, 1)] })),
+});
+
+const rank = <T>(entries: IndexEntry<T>[], tokens: string[], query: string) =>
+  entries
+    .map((entry, order) => ({ item: entry.item, order, score: scoreEntry(entry.fields, tokens, query) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map((result) => result.item);
+
+export const search = (index: SearchIndex, query: string): SearchResults => {
+  const normalized = normalizeText(query);
+  const tokens = normalized.split(' ').filter(Boolean);
+  if (tokens.length === 0) return { songs: [], artists: [], albums: [], playlists: [] };
+  return {
+    songs: rank(index.songs, tokens, normalized),
+    artists: rank(index.artists, tokens, normalized),
+    albums: rank(index.albums, tokens, normalized),
+    playlists: rank(index.playlists, tokens, normalized),
+  };
+};
+
+export const searchTracks = (index: SearchIndex, query: string) => {
+  const tokens = tokenize(query);
+  return tokens.length > 0 ? rank(index.songs, tokens, normalizeText(query)) : index.songs.map((entry) => entry.item);
+};
+
+export const searchPlaylists = (index: SearchIndex, query: string) => {
+  const tokens = tokenize(query);
+  return tokens.length > 0
+    ? rank(index.playlists, tokens, normalizeText(query))
+    : index.playlists.map((entry) => entry.item);
+};
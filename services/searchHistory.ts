@@ -0,0 +1,44 @@
+import { normalizeText } from './search';
+import { createStore } from './storage';
+
+const MAX_ENTRIES = 10;
+
+const searchHistoryStore = createStore<string[]>({
+  key: 'searchHistory',
+  version: 1,
+  defaultValue: [],
+  validate: (data): data is string[] => Array.isArray(data) && data.every((entry) => typeof entry === 'string'),
+});
+
+export const loadSearchHistory = async (): Promise<string[]> => {
+  try {
+    return await searchHistoryStore.load();
+  } catch (error) {
+    console.error('Failed to load search history', error);
+    return [];
+  }
+};
+
+export const saveSearchHistory = async (history: string[]) => {
+  history = history.slice(0, MAX_ENTRIES);
+  try {
+    await searchHistoryStore.save(history);
+  } catch (error) {
+    console.error('Failed to save search history', error);
+  }
+  return history;
+};
+
+// Most recent first; a repeated query moves to the top instead of appearing twice.
+export const addToSearchHistory = async (query: string) => {
+  const trimmed = query.trim();
+  const history = await loadSearchHistory();
+  if (!trimmed) return history;
+  const key = normalizeText(trimmed);
+  return saveSearchHistory([trimmed, ...history.filter((entry) => normalizeText(entry) !== key)]);
+};
+
+export const removeFromSearchHistory = async (query: string) =>
+  saveSearchHistory((await loadSearchHistory()).filter((entry) => entry !== query));
+
+export const clearSearchHistory = () => saveSearchHistory([]);
@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlaybackSource } from '../types';
+
+const CHECKPOINT_KEY = 'playbackCheckpoint';
+
+export interface PlaybackCheckpoint {
+  trackId: string;
+  positionMillis: number;
+  source: PlaybackSource | null;
+  savedAt: number;
+}
+
+export const loadCheckpoint = async (): Promise<PlaybackCheckpoint | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(CHECKPOINT_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to load playback checkpoint', error);
+    return null;
+  }
+};
+
+export const saveCheckpoint = async (checkpoint: PlaybackCheckpoint) => {
+  try {
+    await AsyncStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+  } catch (error) {
+    console.error('Failed to save playback checkpoint', error);
+  }
+};
+
+export const clearCheckpoint = async () => {
+  try {
+    await AsyncStorage.removeItem(CHECKPOINT_KEY);
+  } catch (error) {
+    console.error('Failed to clear playback checkpoint', error);
+  }
+};
@@ -0,0 +1,114 @@
+import * as player from './player';
+
+export const SLEEP_PRESETS = [15, 30, 45, 60];
+export const EXTEND_MINUTES = 5;
+
+const MINUTE = 60 * 1000;
+const FADE_MILLIS = MINUTE;
+const TICK_MILLIS = 1000;
+
+export interface SleepTimerState {
+  active: boolean;
+  endOfTrack: boolean;
+  remainingMillis: number;
+}
+
+type Listener = (state: SleepTimerState) => void;
+
+const inactive: SleepTimerState = { active: false, endOfTrack: false, remainingMillis: 0 };
+
+let state: SleepTimerState = inactive;
+// Wall-clock end of a timed countdown; an end-of-track timer follows the player's position instead.
+let endsAt = 0;
+let ticker: ReturnType<typeof setInterval> | null = null;
+let unsubscribeEnded: (() => void) | null = null;
+const listeners = new Set<Listener>();
+
+export const addListener = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setState = (next: SleepTimerState) => {
+  state = next;
+  listeners.forEach((listener) => listener(state));
+};
+
+export const getState = () => state;
+
+// Until the track's length is known there is nothing to count down from, so it doesn't start fading.
+const remainingMillis = () => {
+  if (!state.endOfTrack) return Math.max(0, endsAt - Date.now());
+  const { durationMillis, positionMillis, rate } = player.getState();
+  return durationMillis > 0 ? Math.max(0, durationMillis - positionMillis) / rate : FADE_MILLIS;
+};
+
+const clear = () => {
+  if (ticker) clearInterval(ticker);
+  ticker = null;
+  unsubscribeEnded?.();
+  unsubscribeEnded = null;
+  player.setPauseAfterCurrent(false);
+  player.setVolume(1);
+};
+
+export const cancelSleepTimer = () => {
+  clear();
+  setState(inactive);
+};
+
+// The volume only comes back up once the sound is paused, and the timer is cleared even if pausing fails.
+const finish = async () => {
+  if (ticker) clearInterval(ticker);
+  ticker = null;
+  try {
+    await player.pause();
+  } finally {
+    cancelSleepTimer();
+  }
+};
+
+// Fades linearly over the last minute. A timed countdown pauses itself; an end-of-track one leaves that to the
+// player, which holds the next track paused instead of starting it.
+const tick = () => {
+  const remaining = remainingMillis();
+  if (!state.endOfTrack && remaining <= 0) {
+    finish().catch((error) => console.error('Failed to pause for the sleep timer', error));
+    return;
+  }
+  player.setVolume(remaining < FADE_MILLIS ? remaining / FADE_MILLIS : 1);
+  setState({ ...state, remainingMillis: remaining });
+};
+
+const start = (endOfTrack: boolean) => {
+  clear();
+  state = { active: true, endOfTrack, remainingMillis: 0 };
+  if (endOfTrack) {
+    player.setPauseAfterCurrent(true);
+    unsubscribeEnded = player.addListener('ended', () => cancelSleepTimer());
+  }
+  ticker = setInterval(tick, TICK_MILLIS);
+  tick();
+};
+
+export const startSleepTimer = (minutes: number) => {
+  endsAt = Date.now() + minutes * MINUTE;
+  start(false);
+};
+
+export const sleepAtEndOfTrack = () => start(true);
+
+// Extending an end-of-track timer turns it into a countdown from whatever is left of the track.
+export const extendSleepTimer = (minutes = EXTEND_MINUTES) => {
+  if (!state.active) return;
+  startSleepTimer((remainingMillis() + minutes * MINUTE) / MINUTE);
+};
+
+// Whole minutes only, so the notification isn't rebuilt every second.
+export const describeSleepTimer = (timer: SleepTimerState) => {
+  if (!timer.active) return null;
+  if (timer.endOfTrack) return 'Sleep at end of track';
+  return `Sleep in ${Math.max(1, Math.ceil(timer.remainingMillis / MINUTE))} min`;
+};
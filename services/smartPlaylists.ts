@@ -0,0 +1,195 @@
+import { SmartCondition, SmartField, SmartOperator, SmartRules, SmartSort, Track, TrackStats } from '../types';
+import { isObject } from '../utils/guards';
+import { compareText } from './browse';
+import { normalizeText } from './search';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface FieldDefinition {
+  label: string;
+  operators: SmartOperator[];
+  unit?: string;
+}
+
+export const SMART_FIELDS: Record<SmartField, FieldDefinition> = {
+  artist: { label: 'Artist', operators: ['is', 'isNot', 'contains'] },
+  album: { label: 'Album', operators: ['is', 'isNot', 'contains'] },
+  genre: { label: 'Genre', operators: ['is', 'isNot', 'contains'] },
+  duration: { label: 'Duration', operators: ['lessThan', 'greaterThan'], unit: 'minutes' },
+  dateAdded: { label: 'Date added', operators: ['inLast', 'notInLast'], unit: 'days' },
+  playCount: { label: 'Play count', operators: ['is', 'lessThan', 'greaterThan'] },
+  lastPlayed: { label: 'Last played', operators: ['inLast', 'notInLast'], unit: 'days' },
+  favourite: { label: 'Favourite', operators: ['is', 'isNot'] },
+  rating: { label: 'Rating', operators: ['is', 'lessThan', 'greaterThan'], unit: 'stars' },
+};
+
+export const SMART_OPERATORS: Record<SmartOperator, string> = {
+  is: 'is',
+  isNot: 'is not',
+  contains: 'contains',
+  lessThan: 'less than',
+  greaterThan: 'more than',
+  inLast: 'in the last',
+  notInLast: 'not in the last',
+};
+
+interface SortEntry {
+  track: Track;
+  stats: TrackStats;
+}
+
+const byPlays = (stats: TrackStats) => stats.playCount;
+const byLastPlayed = (stats: TrackStats) => stats.lastPlayed || 0;
+
+export const SMART_SORTS: Record<SmartSort, { label: string; compare: (a: SortEntry, b: SortEntry) => number }> = {
+  title: { label: 'Title', compare: (a, b) => compareText(a.track.title || a.track.filename, b.track.title || b.track.filename) },
+  artist: { label: 'Artist', compare: (a, b) => compareText(a.track.artist || '', b.track.artist || '') },
+  album: { label: 'Album', compare: (a, b) => compareText(a.track.album || '', b.track.album || '') },
+  recentlyAdded: { label: 'Recently added', compare: (a, b) => (b.track.dateAdded || 0) - (a.track.dateAdded || 0) },
+  mostPlayed: { label: 'Most played', compare: (a, b) => byPlays(b.stats) - byPlays(a.stats) },
+  leastPlayed: { label: 'Least played', compare: (a, b) => byPlays(a.stats) - byPlays(b.stats) },
+  recentlyPlayed: { label: 'Recently played', compare: (a, b) => byLastPlayed(b.stats) - byLastPlayed(a.stats) },
+  shortest: { label: 'Shortest', compare: (a, b) => (a.track.duration || 0) - (b.track.duration || 0) },
+  longest: { label: 'Longest', compare: (a, b) => (b.track.duration || 0) - (a.track.duration || 0) },
+  highestRated: { label: 'Highest rated', compare: (a, b) => b.stats.rating - a.stats.rating },
+};
+
+export const SMART_PRESETS: { title: string; rules: SmartRules }[] = [
+  { title: 'Most Played', rules: { match: 'all', conditions: [], sort: 'mostPlayed', limit: 50 } },
+  {
+    title: 'Recently Added',
+    rules: { match: 'all', conditions: [{ field: 'dateAdded', operator: 'inLast', value: '30' }], sort: 'recentlyAdded' },
+  },
+  {
+    title: 'Top Rated',
+    rules: { match: 'all', conditions: [{ field: 'rating', operator: 'greaterThan', value: '3' }], sort: 'highestRated' },
+  },
+  {
+    title: 'Quick Unplayed',
+    rules: {
+      match: 'all',
+      conditions: [
+        { field: 'playCount', operator: 'is', value: '0' },
+        { field: 'duration', operator: 'lessThan', value: '5' },
+      ],
+      sort: 'title',
+    },
+  },
+];
+
+export const EMPTY_STATS: TrackStats = { playCount: 0, skipCount: 0, favourite: false, rating: 0 };
+
+export const defaultCondition = (field: SmartField): SmartCondition => ({
+  field,
+  operator: SMART_FIELDS[field].operators[0],
+  value: '',
+});
+
+const textOf = (track: Track, field: 'artist' | 'album' | 'genre') => normalizeText(track[field] || '');
+
+const compareNumber = (operator: SmartOperator, actual: number, expected: number) => {
+  if (operator === 'lessThan') return actual < expected;
+  if (operator === 'greaterThan') return actual > expected;
+  return actual === expected;
+};
+
+// A date that was never set (a track that has never been played) is never "in the last" N days.
+const compareAge = (operator: SmartOperator, timestamp: number | undefined, days: number, now: number) => {
+  const isRecent = timestamp !== undefined && now - timestamp <= days * DAY;
+  return operator === 'inLast' ? isRecent : !isRecent;
+};
+
+export const matchesCondition = (condition: SmartCondition, track: Track, stats: TrackStats, now: number) => {
+  const { field, operator } = condition;
+  const number = parseFloat(condition.value);
+  switch (field) {
+    case 'artist':
+    case 'album':
+    case 'genre': {
+      const actual = textOf(track, field);
+      const expected = normalizeText(condition.value);
+      if (operator === 'contains') return actual.includes(expected);
+      return operator === 'isNot' ? actual !== expected : actual === expected;
+    }
+    case 'duration':
+      return compareNumber(operator, (track.duration || 0) / 60, number);
+    case 'playCount':
+      return compareNumber(operator, stats.playCount, number);
+    case 'dateAdded':
+      return compareAge(operator, track.dateAdded, number, now);
+    case 'lastPlayed':
+      return compareAge(operator, stats.lastPlayed, number, now);
+    case 'favourite':
+      return operator === 'isNot' ? !stats.favourite : stats.favourite;
+    case 'rating':
+      return compareNumber(operator, stats.rating, number);
+  }
+};
+
+// Conditions that are still blank, or have a mistyped number, are ignored rather than matching nothing.
+export const isComplete = (condition: SmartCondition) => {
+  if (condition.field === 'favourite') return true;
+  if (['artist', 'album', 'genre'].includes(condition.field)) return condition.value.trim() !== '';
+  return Number.isFinite(parseFloat(condition.value));
+};
+
+const toEntries = (tracks: Track[], stats: Map<string, TrackStats>) =>
+  tracks.map((track): SortEntry => ({ track, stats: stats.get(track.id) || EMPTY_STATS }));
+
+export const sortTracks = (tracks: Track[], sort: SmartSort, stats: Map<string, TrackStats> = new Map()) =>
+  toEntries(tracks, stats)
+    .sort(SMART_SORTS[sort].compare)
+    .map((entry) => entry.track);
+
+export const evaluateRules = (
+  rules: SmartRules,
+  tracks: Track[],
+  stats: Map<string, TrackStats> = new Map(),
+  now = Date.now()
+) => {
+  const conditions = rules.conditions.filter(isComplete);
+  const entries = toEntries(tracks, stats);
+  const matching =
+    conditions.length === 0
+      ? entries
+      : entries.filter((entry) => {
+          const matches = (condition: SmartCondition) => matchesCondition(condition, entry.track, entry.stats, now);
+          return rules.match === 'all' ? conditions.every(matches) : conditions.some(matches);
+        });
+  const sorted = matching.sort(SMART_SORTS[rules.sort].compare).map((entry) => entry.track);
+  return rules.limit ? sorted.slice(0, rules.limit) : sorted;
+};
+
+export const describeCondition = (condition: SmartCondition) => {
+  const field = SMART_FIELDS[condition.field];
+  if (condition.field === 'favourite') return condition.operator === 'isNot' ? 'not favourite' : 'favourite';
+  return [field.label.toLowerCase(), SMART_OPERATORS[condition.operator], condition.value.trim(), field.unit]
+    .filter(Boolean)
+    .join(' ');
+};
+
+export const describeRules = (rules: SmartRules) => {
+  const conditions = rules.conditions
+    .filter(isComplete)
+    .map(describeCondition)
+    .join(rules.match === 'all' ? ' and ' : ' or ');
+  const sort = SMART_SORTS[rules.sort].label.toLowerCase();
+  return [conditions || 'all songs', `by ${sort}`, rules.limit ? `top ${rules.limit}` : ''].filter(Boolean).join(', ');
+};
+
+const isSmartField = (value: unknown): value is SmartField => typeof value === 'string' && value in SMART_FIELDS;
+
+const isSmartCondition = (value: unknown): value is SmartCondition =>
+  isObject(value) &&
+  isSmartField(value.field) &&
+  SMART_FIELDS[value.field].operators.some((operator) => operator === value.operator) &&
+  typeof value.value === 'string';
+
+export const isSmartRules = (value: unknown): value is SmartRules =>
+  isObject(value) &&
+  (value.match === 'all' || value.match === 'any') &&
+  typeof value.sort === 'string' &&
+  value.sort in SMART_SORTS &&
+  (value.limit === undefined || (Number.isInteger(value.limit) && Number(value.limit) > 0)) &&
+  Array.isArray(value.conditions) &&
+  value.conditions.every(isSmartCondition);
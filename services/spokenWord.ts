@@ -0,0 +1,123 @@
+import { Track } from '../types';
+import { folderOf } from './browse';
+import { getDatabase } from './database';
+import { Preferences } from './preferences';
+
+export const SPOKEN_WORD_SKIP_MILLIS = 30000;
+export const MAX_SPOKEN_WORD_MINUTES = 180;
+// Stopping this close to the end counts as finished, so the next play starts from the beginning.
+const FINISHED_MARGIN_MILLIS = 30000;
+
+export type SpokenWordSettings = Pick<Preferences, 'spokenWordMinutes' | 'spokenWordFolders'>;
+
+export interface Bookmark {
+  id: number;
+  trackId: string;
+  positionMillis: number;
+  name: string;
+  note?: string;
+  createdAt: number;
+}
+
+interface BookmarkRow {
+  id: number;
+  track_id: string;
+  position_ms: number;
+  name: string;
+  note: string | null;
+  created_at: number;
+}
+
+const isInFolder = (track: Track, folder: string) => {
+  const path = folderOf(track);
+  return path === folder || path.startsWith(`${folder === '/' ? '' : folder}/`);
+};
+
+// Long files and anything under a folder marked as spoken word, subfolders included.
+export const isSpokenWord = (track: Track, settings: SpokenWordSettings) =>
+  (settings.spokenWordMinutes > 0 && (track.duration || 0) >= settings.spokenWordMinutes * 60) ||
+  settings.spokenWordFolders.some((folder) => isInFolder(track, folder));
+
+export const getResumePosition = async (track: Track) => {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ position_ms: number }>(
+      'SELECT position_ms FROM resume_positions WHERE track_id = ?',
+      [track.id]
+    );
+    if (!row) return 0;
+    const durationMillis = (track.duration || 0) * 1000;
+    return durationMillis > 0 && row.position_ms >= durationMillis - FINISHED_MARGIN_MILLIS ? 0 : row.position_ms;
+  } catch (error) {
+    console.error('Failed to load resume position', error);
+    return 0;
+  }
+};
+
+export const saveResumePosition = async (trackId: string, positionMillis: number) => {
+  try {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO resume_positions (track_id, position_ms, updated_at) VALUES ($trackId, $positionMs, $updatedAt)
+       ON CONFLICT (track_id) DO UPDATE SET position_ms = excluded.position_ms, updated_at = excluded.updated_at`,
+      { $trackId: trackId, $positionMs: Math.round(positionMillis), $updatedAt: Date.now() }
+    );
+  } catch (error) {
+    console.error('Failed to save resume position', error);
+  }
+};
+
+const toBookmark = (row: BookmarkRow): Bookmark => ({
+  id: row.id,
+  trackId: row.track_id,
+  positionMillis: row.position_ms,
+  name: row.name,
+  note: row.note ?? undefined,
+  createdAt: row.created_at,
+});
+
+export const getBookmarks = async (trackId: string): Promise<Bookmark[]> => {
+  try {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<BookmarkRow>(
+      'SELECT * FROM bookmarks WHERE track_id = ? ORDER BY position_ms',
+      [trackId]
+    );
+    return rows.map(toBookmark);
+  } catch (error) {
+    console.error('Failed to load bookmarks', error);
+    return [];
+  }
+};
+
+export const addBookmark = async (trackId: string, positionMillis: number, name: string, note?: string) => {
+  try {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO bookmarks (track_id, position_ms, name, note, created_at)
+       VALUES ($trackId, $positionMs, $name, $note, $createdAt)`,
+      {
+        $trackId: trackId,
+        $positionMs: Math.round(positionMillis),
+        $name: name,
+        $note: note || null,
+        $createdAt: Date.now(),
+      }
+    );
+    return true;
+  } catch (error) {
+    console.error('Failed to add bookmark', error);
+    return false;
+  }
+};
+
+export const deleteBookmark = async (id: number) => {
+  try {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM bookmarks WHERE id = ?', [id]);
+    return true;
+  } catch (error) {
+    console.error('Failed to delete bookmark', error);
+    return false;
+  }
+};
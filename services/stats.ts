@@ -0,0 +1,59 @@
+import { Track } from '../types';
+import { TrackGroup } from './browse';
+import { PlayTotals } from './playHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type StatsPeriod = 'week' | 'month' | 'all';
+
+export const STATS_PERIODS: Record<StatsPeriod, { label: string; days?: number }> = {
+  week: { label: 'This Week', days: 7 },
+  month: { label: 'This Month', days: 30 },
+  all: { label: 'All Time' },
+};
+
+export interface RankedTrack {
+  track: Track;
+  plays: number;
+}
+
+export interface RankedGroup {
+  group: TrackGroup;
+  plays: number;
+}
+
+export const periodStart = (period: StatsPeriod, now = Date.now()) => {
+  const { days } = STATS_PERIODS[period];
+  return days ? now - days * DAY : 0;
+};
+
+const byPlays = <T extends { plays: number }>(a: T, b: T) => b.plays - a.plays;
+
+// Plays of tracks that have since left the library can't be shown, so they drop out of the rankings.
+export const rankTracks = (totals: Map<string, PlayTotals>, tracksById: Map<string, Track>, limit: number) =>
+  [...totals.entries()]
+    .flatMap(([id, total]): RankedTrack[] => {
+      const track = tracksById.get(id);
+      return track ? [{ track, plays: total.plays }] : [];
+    })
+    .sort(byPlays)
+    .slice(0, limit);
+
+export const rankGroups = (groups: TrackGroup[], totals: Map<string, PlayTotals>, limit: number) =>
+  groups
+    .map(
+      (group): RankedGroup => ({
+        group,
+        plays: group.tracks.reduce((sum, track) => sum + (totals.get(track.id)?.plays || 0), 0),
+      })
+    )
+    .filter((ranked) => ranked.plays > 0)
+    .sort(byPlays)
+    .slice(0, limit);
+
+export const formatListeningTime = (millis: number) => {
+  const minutes = Math.round(millis / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+};
@@ -0,0 +1,97 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isObject } from '../utils/guards';
+
+interface Envelope {
+  version: number;
+  savedAt: number;
+  data: unknown;
+}
+
+export interface StoreOptions<T> {
+  key: string;
+  version: number;
+  defaultValue: T;
+  // Each entry upgrades data saved at the keyed version to the next one. Values written before the store existed
+  // (plain JSON with no envelope) count as version 1.
+  migrations?: Record<number, (data: unknown) => unknown>;
+  validate: (data: unknown) => data is T;
+}
+
+export interface Store<T> {
+  load: () => Promise<T>;
+  save: (data: T) => Promise<void>;
+}
+
+export class StorageError extends Error {}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  isObject(value) && Number.isInteger(value.version) && 'data' in value;
+
+// Every save keeps the previous readable value under a second key, written in the same multiSet so the two can't
+// get out of step. If the main value is ever unreadable it is set aside and the last good copy is used instead.
+export const createStore = <T>({ key, version, defaultValue, migrations = {}, validate }: StoreOptions<T>): Store<T> => {
+  const lastGoodKey = `${key}:lastGood`;
+  const corruptKey = `${key}:corrupt`;
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const decode = (raw: string): T => {
+    const parsed = JSON.parse(raw);
+    const envelope: Envelope = isEnvelope(parsed) ? parsed : { version: 1, savedAt: 0, data: parsed };
+    if (envelope.version > version) throw new StorageError(`${key} was saved by a newer version of the app`);
+    let data = envelope.data;
+    for (let from = envelope.version; from < version; from++) {
+      const migrate = migrations[from];
+      if (!migrate) throw new StorageError(`${key} has no migration from version ${from}`);
+      data = migrate(data);
+    }
+    if (!validate(data)) throw new StorageError(`${key} does not match the expected shape`);
+    return data;
+  };
+
+  const isReadable = (raw: string) => {
+    try {
+      decode(raw);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const encode = (data: T) => JSON.stringify({ version, savedAt: Date.now(), data } satisfies Envelope);
+
+  const load = async () => {
+    await pending;
+    const [[, current], [, lastGood]] = await AsyncStorage.multiGet([key, lastGoodKey]);
+    if (current !== null) {
+      try {
+        return decode(current);
+      } catch (error) {
+        console.error(`Failed to read ${key}, falling back to the last good copy`, error);
+        await AsyncStorage.setItem(corruptKey, current).catch(() => undefined);
+      }
+    }
+    if (lastGood !== null) {
+      try {
+        const data = decode(lastGood);
+        await AsyncStorage.setItem(key, encode(data));
+        return data;
+      } catch (error) {
+        console.error(`Failed to read the last good copy of ${key}`, error);
+      }
+    }
+    return defaultValue;
+  };
+
+  const save = (data: T) => {
+    const write = pending.then(async () => {
+      const current = await AsyncStorage.getItem(key);
+      const entries: [string, string][] = [[key, encode(data)]];
+      if (current !== null && isReadable(current)) entries.push([lastGoodKey, current]);
+      await AsyncStorage.multiSet(entries);
+    });
+    pending = write.catch(() => undefined);
+    return write;
+  };
+
+  return { load, save };
+};
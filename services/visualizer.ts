@@ -0,0 +1,160 @@
+import { Audio } from 'expo-av';
+import * as player from './player';
+
+export interface VisualizerFrame {
+  // Levels from 0 to 1, lowest frequencies first, on a log scale so bass doesn't get squeezed into one band.
+  spectrum: number[];
+  // Signed peaks from -1 to 1 across the sample, oldest first.
+  waveform: number[];
+}
+
+type Listener = (frame: VisualizerFrame) => void;
+
+export const SPECTRUM_BANDS = 24;
+export const WAVEFORM_POINTS = 48;
+
+const MAX_FFT_SIZE = 1024;
+const MIN_FFT_SIZE = 64;
+const FRAME_INTERVAL_MILLIS = 50;
+const FLOOR_DB = -60;
+
+export const EMPTY_FRAME: VisualizerFrame = {
+  spectrum: new Array(SPECTRUM_BANDS).fill(0),
+  waveform: new Array(WAVEFORM_POINTS).fill(0),
+};
+
+let lastFrame = EMPTY_FRAME;
+let lastFrameAt = 0;
+let unsubscribeTrack: (() => void) | null = null;
+const listeners = new Set<Listener>();
+
+const mixDown = (sample: Audio.AudioSample) => {
+  const channels = sample.channels.filter((channel) => channel.frames.length > 0);
+  if (channels.length === 0) return [];
+  const length = Math.min(...channels.map((channel) => channel.frames.length));
+  const mono = new Array<number>(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    channels.forEach((channel) => (sum += channel.frames[i]));
+    mono[i] = sum / channels.length;
+  }
+  return mono;
+};
+
+// In-place radix-2 FFT; `re.length` must be a power of two.
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+const spectrumOf = (mono: number[]) => {
+  let size = MAX_FFT_SIZE;
+  while (size > mono.length) size >>= 1;
+  if (size < MIN_FFT_SIZE) return EMPTY_FRAME.spectrum;
+  const offset = mono.length - size;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+    re[i] = mono[offset + i] * hann;
+  }
+  fft(re, im);
+
+  // A full-scale sine comes out at 0 dB: halve for the mirrored bins, and halve again for the Hann window.
+  const bins = size / 2;
+  const scale = 4 / size;
+  const spectrum: number[] = [];
+  let first = 1;
+  for (let band = 0; band < SPECTRUM_BANDS; band++) {
+    const last = Math.max(first, Math.min(bins - 1, Math.round(Math.pow(bins, (band + 1) / SPECTRUM_BANDS)) - 1));
+    let peak = 0;
+    for (let bin = first; bin <= last; bin++) peak = Math.max(peak, Math.hypot(re[bin], im[bin]) * scale);
+    const db = 20 * Math.log10(peak || Number.MIN_VALUE);
+    spectrum.push(Math.min(1, Math.max(0, 1 - db / FLOOR_DB)));
+    first = Math.min(bins - 1, last + 1);
+  }
+  return spectrum;
+};
+
+const waveformOf = (mono: number[]) => {
+  if (mono.length === 0) return EMPTY_FRAME.waveform;
+  const waveform: number[] = [];
+  for (let point = 0; point < WAVEFORM_POINTS; point++) {
+    const start = Math.floor((point * mono.length) / WAVEFORM_POINTS);
+    const end = Math.max(start + 1, Math.floor(((point + 1) * mono.length) / WAVEFORM_POINTS));
+    let peak = 0;
+    for (let i = start; i < end && i < mono.length; i++) if (Math.abs(mono[i]) > Math.abs(peak)) peak = mono[i];
+    waveform.push(Math.max(-1, Math.min(1, peak)));
+  }
+  return waveform;
+};
+
+export const analyzeSample = (sample: Audio.AudioSample): VisualizerFrame => {
+  const mono = mixDown(sample);
+  return { spectrum: spectrumOf(mono), waveform: waveformOf(mono) };
+};
+
+// Averages neighbouring bands, for small displays that only have room for a few bars.
+export const groupBands = (spectrum: number[], count: number) =>
+  Array.from({ length: count }, (_, group) => {
+    const start = Math.floor((group * spectrum.length) / count);
+    const end = Math.max(start + 1, Math.floor(((group + 1) * spectrum.length) / count));
+    const slice = spectrum.slice(start, end);
+    return slice.reduce((sum, level) => sum + level, 0) / slice.length;
+  });
+
+const publish = (frame: VisualizerFrame) => {
+  lastFrame = frame;
+  listeners.forEach((listener) => listener(frame));
+};
+
+// Samples arrive for every audio buffer; analysing each one would keep the JS thread busy for no visible gain.
+const handleSample = (sample: Audio.AudioSample) => {
+  const now = Date.now();
+  if (now - lastFrameAt < FRAME_INTERVAL_MILLIS) return;
+  lastFrameAt = now;
+  publish(analyzeSample(sample));
+};
+
+// The player only sends samples while at least one listener is subscribed. New listeners get the last frame straight
+// away, so a paused display shows where playback stopped.
+export const addListener = (listener: Listener) => {
+  listeners.add(listener);
+  listener(lastFrame);
+  if (listeners.size === 1) {
+    player.setAudioSampleListener(handleSample);
+    unsubscribeTrack = player.addListener('trackChanged', () => publish(EMPTY_FRAME));
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+    player.setAudioSampleListener(null);
+    unsubscribeTrack?.();
+    unsubscribeTrack = null;
+  };
+};
@@ -0,0 +1,128 @@
+export interface Track {
+  id: string;
+  uri: string;
+  filename: string;
+  title?: string;
+  duration?: number;
+  artist?: string;
+  artwork?: string;
+  album?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  dateAdded?: number;
+  // ReplayGain tags: gains in dB, peaks as a fraction of full scale.
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+  // From MP4 chapter tracks or ID3 CHAP frames; only long recordings tend to have them.
+  chapters?: Chapter[];
+}
+
+export interface Chapter {
+  title: string;
+  startMillis: number;
+}
+
+export type PlaylistItem = Track;
+
+// Tracks are stored by id and looked up in the library when shown, so their metadata never goes stale.
+// Smart playlists have `rules` instead and leave `trackIds` empty; their tracks are worked out when shown.
+export interface Playlist {
+  id: string;
+  title: string;
+  trackIds: string[];
+  rules?: SmartRules;
+}
+
+export type SmartField =
+  | 'artist'
+  | 'album'
+  | 'genre'
+  | 'duration'
+  | 'dateAdded'
+  | 'playCount'
+  | 'lastPlayed'
+  | 'favourite'
+  | 'rating';
+
+export type SmartOperator = 'is' | 'isNot' | 'contains' | 'lessThan' | 'greaterThan' | 'inLast' | 'notInLast';
+
+// `value` is kept as typed; durations are in minutes and date ranges in days.
+export interface SmartCondition {
+  field: SmartField;
+  operator: SmartOperator;
+  value: string;
+}
+
+export type SmartSort =
+  | 'title'
+  | 'artist'
+  | 'album'
+  | 'recentlyAdded'
+  | 'mostPlayed'
+  | 'leastPlayed'
+  | 'recentlyPlayed'
+  | 'shortest'
+  | 'longest'
+  | 'highestRated';
+
+export interface SmartRules {
+  match: 'all' | 'any';
+  conditions: SmartCondition[];
+  sort: SmartSort;
+  limit?: number;
+}
+
+export interface TrackStats {
+  playCount: number;
+  skipCount: number;
+  lastPlayed?: number;
+  favourite: boolean;
+  rating: number;
+}
+
+// `rating` is 0 (unrated) to 5 stars. `likedAt` is set while the track is a favourite, so Liked Songs can list the
+// newest likes first.
+export interface TrackRating {
+  rating: number;
+  likedAt?: number;
+}
+
+export type Ratings = Record<string, TrackRating>;
+
+export type BrowseKind = 'artist' | 'album' | 'genre' | 'folder';
+
+export interface BrowseView {
+  kind: BrowseKind;
+  key: string;
+  name: string;
+}
+
+export type PlaybackSource =
+  | { type: 'library' }
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'search'; query: string }
+  | { type: 'browse'; view: BrowseView }
+  | { type: 'history' }
+  | { type: 'liked' };
+
+export type RootStackParamList = {
+  MusicPlayerScreen: undefined;
+  PlaylistScreen: { playlistId?: string } | undefined;
+  QueueScreen: undefined;
+  NowPlayingScreen: undefined;
+  BrowseScreen: undefined;
+  BrowseDetailScreen: { view: BrowseView };
+  SettingsScreen: undefined;
+  SmartPlaylistScreen: { playlistId?: string } | undefined;
+  StatsScreen: undefined;
+};
+
+declare global {
+  namespace ReactNavigation {
+    interface RootParamList extends RootStackParamList {}
+  }
+}
@@ -0,0 +1,3 @@
+// For validating parsed JSON: narrows to a plain object whose fields can then be checked one by one.
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,9 @@
+// Android media library URIs are "file://" plus the raw path, so a name like "100% Hits.mp3" isn't valid
+// percent-encoding; such paths are used as they are.
+export const decodeUri = (uri: string) => {
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    return uri;
+  }
+};